@@ -0,0 +1,63 @@
+import contentScript from "../content/index.ts?script";
+import { MessageError, sendTabMessage, type PageCapture } from "../shared/messages";
+import { siteAccess } from "../shared/site-access";
+import { createLogger } from "../shared/logger";
+
+// The content script isn't declared in the manifest, so it doesn't run on
+// every page. It is injected when the user acts on a tab (the popup and the
+// context menu grant `activeTab`), and on every page of the sites the user
+// allowed in the options.
+
+// The content script answers within this time, unless the page is stuck
+const EXTRACT_TIMEOUT = 3000; // 3 seconds
+
+const log = createLogger("background");
+
+// Injecting twice is harmless: the loader imports the same module, which only
+// runs once per page
+export async function injectContentScript(tabId: number): Promise<void> {
+  await chrome.scripting.executeScript({ target: { tabId }, files: [contentScript] });
+}
+
+export async function injectIfAllowed(tab: chrome.tabs.Tab): Promise<void> {
+  if (tab.id && tab.url && (await siteAccess.isGranted(tab.url))) {
+    await injectContentScript(tab.id);
+  }
+}
+
+// Extracts the tab's data through the content script. Pages that can't be
+// scripted, such as the Chrome Web Store, are saved with just their URL and
+// title.
+export async function capturePage(tab: chrome.tabs.Tab): Promise<PageCapture> {
+  if (!tab.id || !tab.url) {
+    throw new Error("This tab can't be saved");
+  }
+
+  const withoutExtractedData = (reason: unknown) => {
+    log.warn("Saving page without extracted data:", reason);
+    return { url: tab.url!, title: tab.title || tab.url!, extracted: {} };
+  };
+
+  try {
+    await injectContentScript(tab.id);
+  } catch (error) {
+    // Chrome doesn't allow scripting its own pages and the Web Store
+    return withoutExtractedData(error);
+  }
+
+  try {
+    const { url, title, description, timestamp, ...extracted } = await sendTabMessage(
+      tab.id,
+      "EXTRACT_DATA",
+      undefined,
+      { timeout: EXTRACT_TIMEOUT }
+    );
+    return { url, title, description: description || undefined, extracted };
+  } catch (error) {
+    if (error instanceof MessageError) {
+      return withoutExtractedData(error.message);
+    }
+
+    throw error;
+  }
+}
@@ -1,10 +1,25 @@
-import { edgeFetch } from "../shared/edge-fetch";
+import { edgeFetch, edgeFetchClient } from "../shared/edge-fetch";
+import { authFlow } from "../shared/auth-flow";
+import { syncClient } from "../shared/sync";
+import { outbox, OUTBOX_RETRY_ALARM } from "../shared/outbox";
+import { realtimeClient } from "../shared/realtime";
+import { eventTracker, EVENT_FLUSH_ALARM } from "../shared/event-tracker";
+import { handleMessages, serveStream, type SyncDataPayload } from "../shared/messages";
+import { settings } from "../shared/settings";
+import { CONFIG_REFRESH_ALARM, remoteConfig } from "../shared/remote-config";
+import { createLogger } from "../shared/logger";
+import { capturePage, injectIfAllowed } from "./content-script";
 
-console.log("RedwoodSDK Extension background script loaded");
+const SAVE_PAGE_MENU_ID = "save-page";
+const SYNC_ALARM = "sync-data";
+
+const log = createLogger("background");
+
+log.debug("RedwoodSDK Extension background script loaded");
 
 // Handle installation
 chrome.runtime.onInstalled.addListener((details) => {
-  console.log("Extension installed:", details.reason);
+  log.info("Extension installed:", details.reason);
   
   if (details.reason === "install") {
     // Set default settings or perform initial setup
@@ -13,76 +28,290 @@ chrome.runtime.onInstalled.addListener((details) => {
       installDate: new Date().toISOString(),
     });
   }
+
+  chrome.contextMenus.create({
+    id: SAVE_PAGE_MENU_ID,
+    title: "Save page to RedwoodSDK",
+    contexts: ["page"],
+  });
 });
 
-// Handle messages from content scripts or popup
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  console.log("Background received message:", message);
-  
-  switch (message.type) {
-    case "GET_AUTH_STATUS":
-      handleAuthStatus().then(sendResponse);
-      return true; // Keep message channel open for async response
-      
-    case "SYNC_DATA":
-      handleDataSync(message.data).then(sendResponse);
-      return true;
-      
-    default:
-      console.warn("Unknown message type:", message.type);
+// Handle messages from content scripts or popup (see `shared/messages.ts`)
+handleMessages({
+  GET_AUTH_STATUS: () => handleAuthStatus(),
+  SYNC_DATA: (payload) => handleDataSync(payload || undefined),
+  RESTORE_RECORDS: async ({ records }) => {
+    for (const { collection, key, fields } of records) {
+      await syncClient.set(collection, key, fields!);
+    }
+
+    await syncIfEnabled();
+    return { restored: records.length };
+  },
+  TRACK_EVENT: ({ eventType, data }, sender) => handleTrackEvent(eventType, data, sender.url),
+  CAPTURE_PAGE: async ({ tabId }) => {
+    if (!(await remoteConfig.isEnabled("pageCapture"))) {
+      throw new Error("Saving pages is turned off");
+    }
+
+    return capturePage(await chrome.tabs.get(tabId));
+  },
+});
+
+// Handle the sign-in and step-up handoffs from the web app's /auth/extension
+// pages (allowed by `externally_connectable` in the manifest)
+chrome.runtime.onMessageExternal.addListener((message, sender, sendResponse) => {
+  if (
+    (message?.type !== "AUTH_HANDOFF" && message?.type !== "REAUTH_HANDOFF") ||
+    typeof message.code !== "string"
+  ) {
+    sendResponse({ success: false, error: "unknown_message" });
+    return;
   }
+
+  handleAuthHandoff(message.type, message.code, sender).then(sendResponse);
+  return true;
 });
 
+// Exchange a handoff code for tokens, or for a recent authentication of the
+// current session, but only if it comes from the configured edge app
+async function handleAuthHandoff(
+  type: "AUTH_HANDOFF" | "REAUTH_HANDOFF",
+  code: string,
+  sender: chrome.runtime.MessageSender
+): Promise<{ success: boolean; error?: string }> {
+  const baseUrl = await edgeFetchClient.getBaseUrl();
+
+  if (!sender.url || new URL(sender.url).origin !== new URL(baseUrl).origin) {
+    log.warn("Rejected auth handoff from unexpected origin:", sender.url);
+    return { success: false, error: "unexpected_origin" };
+  }
+
+  const result =
+    type === "AUTH_HANDOFF"
+      ? await authFlow.exchangeHandoffCode(code)
+      : await authFlow.exchangeReauthenticationCode(code);
+  return result.success ? { success: true } : { success: false, error: "exchange_failed" };
+}
+
 // Check authentication status with edge API
 async function handleAuthStatus(): Promise<{ authenticated: boolean }> {
   try {
     const response = await edgeFetch("/api/auth/session");
     return { authenticated: response.ok };
   } catch (error) {
-    console.error("Auth status check failed:", error);
+    log.error("Auth status check failed:", error);
     return { authenticated: false };
   }
 }
 
-// Sync data with edge API
-async function handleDataSync(data: any): Promise<{ success: boolean }> {
+// Queue a record change (if any) and sync with edge API. Changes stay queued
+// when the sync fails and go out with the next one.
+async function handleDataSync(data?: SyncDataPayload): Promise<{ success: boolean }> {
   try {
-    const response = await edgeFetch("/api/extension/sync", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
-    });
-    
-    return { success: response.ok };
+    if (data?.deleted) {
+      await syncClient.remove(data.collection, data.key);
+    } else if (data?.fields) {
+      await syncClient.set(data.collection, data.key, data.fields);
+    }
+
+    await syncIfEnabled();
+    return { success: true };
+  } catch (error) {
+    log.error("Data sync failed:", error);
+    return { success: false };
+  }
+}
+
+// Sync with edge API, unless sync is turned off remotely. Changes stay queued
+// until it is turned back on.
+async function syncIfEnabled(): Promise<void> {
+  if (await remoteConfig.isEnabled("dataSync")) {
+    await syncClient.sync();
+  }
+}
+
+// Record an event from a content script, unless tracking is turned off in
+// the options or remotely
+async function handleTrackEvent(
+  eventType: string,
+  data: Record<string, unknown>,
+  url?: string
+): Promise<{ success: boolean; tracked?: boolean }> {
+  try {
+    if (!(await remoteConfig.isEnabled("activityTracking"))) {
+      return { success: true, tracked: false };
+    }
+
+    const tracked = await eventTracker.track(eventType, data, url);
+    return { success: true, tracked };
   } catch (error) {
-    console.error("Data sync failed:", error);
+    log.error("Failed to track event:", error);
     return { success: false };
   }
 }
 
-// Handle tab updates for potential content script injection
+// Save the page from the context menu. Goes through the outbox, so pages saved
+// while offline are stored once the network is back.
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  if (info.menuItemId === SAVE_PAGE_MENU_ID && tab) {
+    handleSavePage(tab);
+  }
+});
+
+async function handleSavePage(tab: chrome.tabs.Tab): Promise<void> {
+  if (!edgeFetchClient.isAuthenticated()) {
+    log.warn("Sign in to save pages");
+    return;
+  }
+
+  if (!(await remoteConfig.isEnabled("pageCapture"))) {
+    log.warn("Saving pages is turned off");
+    return;
+  }
+
+  try {
+    await outbox.enqueue("/api/bookmarks", { body: await capturePage(tab) });
+  } catch (error) {
+    log.error("Failed to save page:", error);
+  }
+}
+
+// Send whatever piled up while offline as soon as the network is back
+function replayQueued(): void {
+  outbox.flush().catch((error) => {
+    log.error("Outbox replay failed:", error);
+  });
+  syncIfEnabled().catch((error) => {
+    log.error("Data sync failed:", error);
+  });
+}
+
+self.addEventListener("online", replayQueued);
+chrome.runtime.onStartup.addListener(replayQueued);
+
+// Keep the remote config fresh: on startup, after signing in or out (flags
+// can differ per user) and when the worker says it is due
+function refreshConfig(): void {
+  remoteConfig.refresh().catch((error) => {
+    log.error("Config refresh failed:", error);
+  });
+}
+
+chrome.runtime.onStartup.addListener(refreshConfig);
+chrome.runtime.onInstalled.addListener(refreshConfig);
+
+// Stay connected to the worker's realtime events while signed in, and relay
+// them to extension pages so they don't need a connection of their own
+serveStream("REALTIME_EVENTS", (post) => realtimeClient.subscribe(post));
+
+realtimeClient.subscribe((event) => {
+  if (event.type === "sync.changed" && !event.current) {
+    syncIfEnabled().catch((error) => {
+      log.error("Data sync failed:", error);
+    });
+  } else if (event.type === "session.revoked" && event.current) {
+    // Signed out from another device: drop the tokens and local data
+    authFlow.logout();
+  }
+});
+
+// Connect once tokens are stored after signing in, or drop the connection
+// when they are cleared, and get the signed in user's flags. Signing out, in
+// whichever way, also drops the requests the user left in the outbox.
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === "local" && changes.tokenData && !changes.tokenData.oldValue !== !changes.tokenData.newValue) {
+    realtimeClient.reconnect();
+    refreshConfig();
+
+    if (!changes.tokenData.newValue) {
+      outbox.clear().catch((error) => {
+        log.error("Clearing the outbox failed:", error);
+      });
+    }
+  }
+
+  // Cleared by a reset from the options page, see `shared/settings-backup.ts`
+  if (areaName === "local" && changes.remoteConfig && !changes.remoteConfig.newValue) {
+    refreshConfig();
+  }
+
+  if (areaName === "local" && changes.syncState && !changes.syncState.newValue) {
+    syncIfEnabled().catch((error) => {
+      log.error("Sync after reset failed:", error);
+    });
+  }
+});
+
+// Run the content script on the sites the user allowed in the options,
+// including tabs that were already open when a site was allowed
 chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
-  if (changeInfo.status === "complete" && tab.url) {
-    // Only inject on specific domains if needed
-    console.log("Tab updated:", tab.url);
+  if (changeInfo.status === "complete") {
+    injectIfAllowed(tab).catch((error) => {
+      log.error("Content script injection failed:", error);
+    });
   }
 });
 
-// Periodic background tasks (if needed)
+chrome.permissions.onAdded.addListener(async ({ origins }) => {
+  if (!origins?.length) return;
+
+  for (const tab of await chrome.tabs.query({ url: origins })) {
+    injectIfAllowed(tab).catch((error) => {
+      log.error("Content script injection failed:", error);
+    });
+  }
+});
+
+// Periodic background tasks
 chrome.alarms.onAlarm.addListener((alarm) => {
-  console.log("Alarm triggered:", alarm.name);
+  log.debug("Alarm triggered:", alarm.name);
   
   switch (alarm.name) {
-    case "sync-data":
-      // Perform periodic data sync
+    case SYNC_ALARM:
+      replayQueued();
+      break;
+    case EVENT_FLUSH_ALARM:
+      eventTracker.flush().catch((error) => {
+        log.error("Event flush failed:", error);
+      });
+      break;
+    case CONFIG_REFRESH_ALARM:
+      refreshConfig();
+      break;
+    case OUTBOX_RETRY_ALARM:
+      outbox.flush().catch((error) => {
+        log.error("Outbox retry failed:", error);
+      });
       break;
     default:
       break;
   }
 });
 
-// Create periodic alarm (optional)
-chrome.alarms.create("sync-data", { 
-  delayInMinutes: 1, 
-  periodInMinutes: 30 
+// Sync every `syncInterval` minutes. The alarm outlives the service worker, so
+// it is only re-created when the interval changed, which would otherwise push
+// the next sync back every time the worker starts.
+async function scheduleSync(syncInterval: number): Promise<void> {
+  const alarm = await chrome.alarms.get(SYNC_ALARM);
+
+  if (alarm?.periodInMinutes !== syncInterval) {
+    log.info(`Syncing every ${syncInterval} minutes`);
+    await chrome.alarms.create(SYNC_ALARM, { delayInMinutes: 1, periodInMinutes: syncInterval });
+  }
+}
+
+settings
+  .get()
+  .then(({ syncInterval }) => scheduleSync(syncInterval))
+  .catch((error) => {
+    log.error("Failed to schedule sync:", error);
+  });
+
+settings.subscribe(({ syncInterval }, changed) => {
+  if (changed.includes("syncInterval")) {
+    scheduleSync(syncInterval).catch((error) => {
+      log.error("Failed to schedule sync:", error);
+    });
+  }
 });
\ No newline at end of file
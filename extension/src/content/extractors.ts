@@ -0,0 +1,255 @@
+import type { ExtractedPageData } from "../shared/messages";
+
+// Pipeline that builds the `EXTRACT_DATA` response. Each extractor reads one
+// kind of data from the page and returns the fields it found; their results
+// are merged in order. Sites whose markup the generic extractors get wrong
+// can replace or turn off extractors by name in `siteOverrides`.
+
+export interface ExtractorContext {
+  document: Document;
+  url: URL;
+}
+
+export type Extractor = (context: ExtractorContext) => Partial<ExtractedPageData>;
+
+type ExtractorName = keyof typeof defaultExtractors;
+
+export interface SiteOverride {
+  // Also matches subdomains, e.g. "wikipedia.org" matches "en.wikipedia.org"
+  hosts: string[];
+  // `null` turns the extractor off on these sites
+  extractors: Partial<Record<ExtractorName, Extractor | null>>;
+}
+
+// Size limits, so a capture stays well within what `/api/bookmarks` accepts
+const MAX_TEXT_LENGTH = 1000; // Titles, descriptions and meta tags
+const MAX_HEADINGS = 50;
+const MAX_HEADING_LENGTH = 200;
+const MAX_META_TAGS = 30;
+const MAX_CONTENT_LENGTH = 16 * 1024;
+const MAX_SELECTION_LENGTH = 4 * 1024;
+const MAX_STRUCTURED_DATA_SIZE = 16 * 1024; // Characters of JSON
+// Optional fields are dropped, largest first, until the whole capture fits
+const MAX_EXTRACTED_SIZE = 48 * 1024;
+
+// Elements that are never part of the main content
+const BOILERPLATE_SELECTOR =
+  "script, style, noscript, template, svg, iframe, nav, header, footer, aside, form, dialog, [hidden], [aria-hidden='true'], [role='navigation'], [role='banner'], [role='contentinfo']";
+const BLOCK_SELECTOR = "p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, figcaption, td";
+
+const normalizeSpace = (text: string) => text.replace(/\s+/g, " ").trim();
+
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? text.slice(0, maxLength - 1) + "…" : text;
+
+const resolveUrl = (href: string | null | undefined, base: string) => {
+  if (!href) return undefined;
+
+  try {
+    return new URL(href, base).href;
+  } catch {
+    return undefined;
+  }
+};
+
+const getMeta = (document: Document, selector: string) =>
+  normalizeSpace(document.querySelector<HTMLMetaElement>(selector)?.content ?? "");
+
+// Text of an element's content blocks, one paragraph per block
+function readBlocks(root: Element): string {
+  const clone = root.cloneNode(true) as Element;
+  clone.querySelectorAll(BOILERPLATE_SELECTOR).forEach((element) => element.remove());
+
+  const blocks = Array.from(clone.querySelectorAll(BLOCK_SELECTOR))
+    // Nested blocks, e.g. a paragraph in a list item, are read with their parent
+    .filter((block) => !block.parentElement?.closest(BLOCK_SELECTOR))
+    .map((block) => normalizeSpace(block.textContent ?? ""))
+    .filter(Boolean);
+
+  return blocks.length > 0 ? blocks.join("\n\n") : normalizeSpace(clone.textContent ?? "");
+}
+
+// Picks the element holding most of the page's paragraph text, for pages
+// without an `article` or `main` element
+function findContentRoot(document: Document): Element | null {
+  let best: Element | null = null;
+  let bestScore = 0;
+
+  for (const paragraph of Array.from(document.querySelectorAll("p"))) {
+    const parent = paragraph.parentElement;
+    if (!parent || parent.closest(BOILERPLATE_SELECTOR)) continue;
+
+    const score = Array.from(parent.children)
+      .filter((child) => child.tagName === "P")
+      .reduce((total, child) => total + normalizeSpace(child.textContent ?? "").length, 0);
+
+    if (score > bestScore) {
+      best = parent;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function readContent(root: Element | null): Partial<ExtractedPageData> {
+  const text = root ? readBlocks(root) : "";
+  return text ? { content: truncate(text, MAX_CONTENT_LENGTH), wordCount: text.split(/\s+/).length } : {};
+}
+
+// Extractor for the readable text of the first element matching `selector`,
+// for site overrides
+export const readableContent =
+  (selector: string): Extractor =>
+  ({ document }) =>
+    readContent(document.querySelector(selector));
+
+function readMetaTags(document: Document, prefix: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+
+  for (const meta of Array.from(document.querySelectorAll<HTMLMetaElement>("meta[property], meta[name]"))) {
+    const key = meta.getAttribute("property") || meta.getAttribute("name") || "";
+
+    if (!key.startsWith(prefix) || !meta.content || Object.keys(tags).length >= MAX_META_TAGS) {
+      continue;
+    }
+
+    const name = key.slice(prefix.length);
+    // The first of repeated tags (e.g. several `og:image`) is the preferred one
+    tags[name] ??= truncate(normalizeSpace(meta.content), MAX_TEXT_LENGTH);
+  }
+
+  return tags;
+}
+
+const defaultExtractors = {
+  basic: ({ document, url }) => ({
+    url: url.href,
+    title: truncate(normalizeSpace(document.title), MAX_TEXT_LENGTH),
+    description: truncate(getMeta(document, 'meta[name="description"]'), MAX_TEXT_LENGTH),
+    forms: document.forms.length,
+  }),
+
+  headings: ({ document }) => ({
+    headings: Array.from(document.querySelectorAll("h1, h2, h3"))
+      .map((heading) => truncate(normalizeSpace(heading.textContent ?? ""), MAX_HEADING_LENGTH))
+      .filter(Boolean)
+      .slice(0, MAX_HEADINGS),
+  }),
+
+  canonical: ({ document, url }) => ({
+    canonicalUrl:
+      resolveUrl(document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.getAttribute("href"), url.href) ??
+      (getMeta(document, 'meta[property="og:url"]') || undefined),
+  }),
+
+  lang: ({ document }) => ({
+    lang: document.documentElement.lang || getMeta(document, 'meta[http-equiv="content-language"]') || undefined,
+  }),
+
+  favicon: ({ document, url }) => {
+    const icon = document.querySelector<HTMLLinkElement>(
+      'link[rel~="icon"][href], link[rel="apple-touch-icon"][href]'
+    );
+    return { favicon: resolveUrl(icon?.getAttribute("href"), document.baseURI) ?? `${url.origin}/favicon.ico` };
+  },
+
+  content: ({ document }) =>
+    readContent(
+      document.querySelector("article") ?? document.querySelector("main, [role='main']") ?? findContentRoot(document)
+    ),
+
+  openGraph: ({ document }) => {
+    const openGraph = readMetaTags(document, "og:");
+    const twitterCard = readMetaTags(document, "twitter:");
+
+    return {
+      ...(Object.keys(openGraph).length > 0 && { openGraph }),
+      ...(Object.keys(twitterCard).length > 0 && { twitterCard }),
+      // Many pages only describe themselves in Open Graph tags
+      ...(!getMeta(document, 'meta[name="description"]') &&
+        (openGraph.description || twitterCard.description) && {
+          description: openGraph.description || twitterCard.description,
+        }),
+    };
+  },
+
+  structuredData: ({ document }) => {
+    const structuredData: unknown[] = [];
+    let size = 0;
+
+    for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]'))) {
+      const json = script.textContent ?? "";
+
+      if (size + json.length > MAX_STRUCTURED_DATA_SIZE) {
+        break;
+      }
+
+      try {
+        structuredData.push(JSON.parse(json));
+        size += json.length;
+      } catch {
+        // Pages ship broken JSON-LD more often than one would hope
+      }
+    }
+
+    return structuredData.length > 0 ? { structuredData } : {};
+  },
+
+  selection: ({ document }) => {
+    const selection = normalizeSpace(document.getSelection()?.toString() ?? "");
+    return selection ? { selection: truncate(selection, MAX_SELECTION_LENGTH) } : {};
+  },
+} satisfies Record<string, Extractor>;
+
+export const siteOverrides: SiteOverride[] = [
+  { hosts: ["github.com"], extractors: { content: readableContent(".markdown-body") } },
+  { hosts: ["wikipedia.org"], extractors: { content: readableContent("#mw-content-text") } },
+  // The generic extractor only finds comments and sidebars there
+  { hosts: ["news.ycombinator.com"], extractors: { content: null } },
+];
+
+const matchesHost = (hostname: string, host: string) => hostname === host || hostname.endsWith(`.${host}`);
+
+export function getExtractors(url: URL): [ExtractorName, Extractor][] {
+  const extractors: Partial<Record<ExtractorName, Extractor | null>> = { ...defaultExtractors };
+
+  for (const override of siteOverrides) {
+    if (override.hosts.some((host) => matchesHost(url.hostname, host))) {
+      Object.assign(extractors, override.extractors);
+    }
+  }
+
+  return Object.entries(extractors).filter((entry): entry is [ExtractorName, Extractor] => !!entry[1]);
+}
+
+// Largest first, see `MAX_EXTRACTED_SIZE`
+const DROPPABLE_FIELDS = ["structuredData", "content", "selection", "twitterCard", "openGraph"] as const;
+
+export function extractPageData(document: Document, location: Location | URL): ExtractedPageData {
+  const url = new URL(location.href);
+  const data: ExtractedPageData = {
+    url: url.href,
+    title: "",
+    description: "",
+    headings: [],
+    forms: 0,
+    timestamp: new Date().toISOString(),
+  };
+
+  for (const [name, extractor] of getExtractors(url)) {
+    try {
+      Object.assign(data, extractor({ document, url }));
+    } catch (error) {
+      // One broken extractor shouldn't cost the rest of the capture
+      console.warn(`Extractor ${name} failed:`, error);
+    }
+  }
+
+  for (const field of DROPPABLE_FIELDS) {
+    if (JSON.stringify(data).length <= MAX_EXTRACTED_SIZE) break;
+    delete data[field];
+  }
+
+  return data;
+}
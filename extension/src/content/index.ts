@@ -1,4 +1,11 @@
-console.log("RedwoodSDK Extension content script loaded");
+import { handleMessages, sendMessage } from "../shared/messages";
+import { createLogger } from "../shared/logger";
+import { isFeatureEnabled, remoteConfig } from "../shared/remote-config";
+import { extractPageData } from "./extractors";
+
+const log = createLogger("content");
+
+log.debug("RedwoodSDK Extension content script loaded");
 
 // Content script that runs on web pages
 class ExtensionContentScript {
@@ -22,48 +29,37 @@ class ExtensionContentScript {
   }
 
   private setup() {
-    console.log("Content script setup on:", window.location.href);
+    log.debug("Content script setup on:", window.location.href);
     
-    // Listen for messages from popup or background
-    chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-      this.handleMessage(message, sender, sendResponse);
-      return true; // Keep message channel open
+    // Answer messages from popup or background (see `shared/messages.ts`)
+    handleMessages({
+      GET_PAGE_DATA: () => ({
+        url: window.location.href,
+        title: document.title,
+        timestamp: new Date().toISOString(),
+      }),
+      EXTRACT_DATA: () => extractPageData(document, window.location),
     });
     
     // Add extension-specific functionality
-    this.injectExtensionFeatures();
+    this.injectExtensionFeatures().catch((error) => {
+      log.error("Failed to set up page features:", error);
+    });
   }
 
-  private handleMessage(message: any, sender: any, sendResponse: Function) {
-    console.log("Content script received message:", message);
-    
-    switch (message.type) {
-      case "GET_PAGE_DATA":
-        sendResponse({
-          url: window.location.href,
-          title: document.title,
-          timestamp: new Date().toISOString(),
-        });
-        break;
-        
-      case "EXTRACT_DATA":
-        const extractedData = this.extractPageData();
-        sendResponse(extractedData);
-        break;
-        
-      default:
-        console.warn("Unknown message type:", message.type);
-    }
-  }
+  // Features can be turned off remotely, see `shared/remote-config.ts`
+  private async injectExtensionFeatures() {
+    const config = await remoteConfig.get();
 
-  private injectExtensionFeatures() {
     // Add a small indicator that the extension is active (optional)
-    if (this.shouldShowIndicator()) {
+    if (isFeatureEnabled(config, "pageIndicator") && this.shouldShowIndicator()) {
       this.addExtensionIndicator();
     }
     
     // Listen for specific page events
-    this.setupPageListeners();
+    if (isFeatureEnabled(config, "activityTracking")) {
+      this.setupPageListeners();
+    }
   }
 
   private shouldShowIndicator(): boolean {
@@ -115,23 +111,10 @@ class ExtensionContentScript {
     });
   }
 
-  private extractPageData() {
-    return {
-      url: window.location.href,
-      title: document.title,
-      description: document.querySelector('meta[name="description"]')?.getAttribute('content') || '',
-      headings: Array.from(document.querySelectorAll('h1, h2, h3')).map(h => h.textContent),
-      forms: Array.from(document.querySelectorAll('form')).length,
-      timestamp: new Date().toISOString(),
-    };
-  }
-
-  private trackEvent(eventType: string, data: any) {
+  private trackEvent(eventType: string, data: Record<string, unknown>) {
     // Send tracking data to background script
-    chrome.runtime.sendMessage({
-      type: "TRACK_EVENT",
-      eventType,
-      data,
+    sendMessage("TRACK_EVENT", { eventType, data }).catch((error) => {
+      log.error("Failed to track event:", error);
     });
   }
 }
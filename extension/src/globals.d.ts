@@ -1,3 +1,5 @@
+/// <reference types="@crxjs/vite-plugin/client" />
+
 declare global {
   // Chrome Extension APIs
   const chrome: typeof import('@types/chrome');
@@ -0,0 +1,204 @@
+import React, { useRef, useState } from "react";
+import {
+  applyBackup,
+  BackupError,
+  createBackup,
+  diffBackup,
+  downloadBackup,
+  isEmptyDiff,
+  parseBackup,
+  uploadBackup,
+  type BackupDiff,
+  type SettingsBackup,
+} from "../shared/settings-backup";
+
+interface BackupSettingsProps {
+  // Called once a backup is imported, to show the new settings
+  onImported: () => void;
+}
+
+interface PendingImport {
+  backup: SettingsBackup;
+  diff: BackupDiff;
+}
+
+const formatValue = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+// Export and import of the settings as a JSON file, or to the user's account.
+// An import shows what it would change and waits for "Apply".
+export const BackupSettings: React.FC<BackupSettingsProps> = ({ onImported }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setStatus(null);
+    setError(null);
+
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(error instanceof BackupError ? error.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const preview = async (backup: SettingsBackup) => {
+    setPending({ backup, diff: await diffBackup(backup) });
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      const backup = await createBackup();
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `rwsdk-extension-backup-${backup.exportedAt.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    }, "Could not export the settings");
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+
+    if (!file) {
+      return;
+    }
+
+    run(async () => {
+      let parsed: unknown;
+
+      try {
+        parsed = JSON.parse(await file.text());
+      } catch {
+        throw new BackupError(`${file.name} is not a JSON file`);
+      }
+
+      await preview(parseBackup(parsed));
+    }, "Could not read the backup");
+  };
+
+  const handleUpload = () =>
+    run(async () => {
+      const { updatedAt } = await uploadBackup();
+      setStatus(`Backed up to your account at ${new Date(updatedAt).toLocaleString()}`);
+    }, "Could not back up to your account. Are you signed in?");
+
+  const handleDownload = () =>
+    run(async () => {
+      const result = await downloadBackup();
+
+      if (result) {
+        await preview(result.backup);
+      } else {
+        setStatus("Your account has no backup yet");
+      }
+    }, "Could not load the backup from your account. Are you signed in?");
+
+  const handleApply = () =>
+    run(async () => {
+      await applyBackup(pending!.backup, pending!.diff);
+      setPending(null);
+      setStatus("Backup imported");
+      onImported();
+    }, "Could not import the backup");
+
+  return (
+    <div className="settings-section">
+      <h2>Backup</h2>
+
+      <div className="setting-item">
+        <small>
+          Backups hold the settings, allowed sites and synced data, but never your sign-in. Importing one adds to
+          what is here; nothing is removed.
+        </small>
+      </div>
+
+      <div className="backup-actions">
+        <button onClick={handleExport} className="btn btn-secondary" disabled={busy}>
+          Export to File
+        </button>
+        <button onClick={() => fileInput.current?.click()} className="btn btn-secondary" disabled={busy}>
+          Import from File
+        </button>
+        <button onClick={handleUpload} className="btn btn-secondary" disabled={busy}>
+          Back Up to Account
+        </button>
+        <button onClick={handleDownload} className="btn btn-secondary" disabled={busy}>
+          Restore from Account
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFile}
+          hidden
+          aria-label="Backup file"
+        />
+      </div>
+
+      {pending && (
+        <div className="backup-preview">
+          {isEmptyDiff(pending.diff) ? (
+            <p>The extension already matches this backup.</p>
+          ) : (
+            <>
+              <p>
+                Importing this backup
+                {pending.backup.exportedAt && ` from ${new Date(pending.backup.exportedAt).toLocaleString()}`} will:
+              </p>
+              {pending.diff.settings.length > 0 && (
+                <table className="backup-diff">
+                  <thead>
+                    <tr>
+                      <th>Setting</th>
+                      <th>Current</th>
+                      <th>Backup</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pending.diff.settings.map(({ key, current, imported }) => (
+                      <tr key={key}>
+                        <td>{key}</td>
+                        <td>{formatValue(current)}</td>
+                        <td>{formatValue(imported)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <ul>
+                {pending.diff.addedSites.map((site) => (
+                  <li key={site}>Allow {site}</li>
+                ))}
+                {pending.diff.addedRecords.length > 0 && <li>Add {pending.diff.addedRecords.length} synced records</li>}
+                {pending.diff.changedRecords.length > 0 && (
+                  <li>Update {pending.diff.changedRecords.length} synced records</li>
+                )}
+              </ul>
+            </>
+          )}
+          <div className="backup-actions">
+            {!isEmptyDiff(pending.diff) && (
+              <button onClick={handleApply} className="btn btn-primary" disabled={busy}>
+                Apply
+              </button>
+            )}
+            <button onClick={() => setPending(null)} className="btn btn-secondary" disabled={busy}>
+              {isEmptyDiff(pending.diff) ? "Close" : "Cancel"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status && <p className="backup-status">{status}</p>}
+      {error && <p className="site-error">{error}</p>}
+    </div>
+  );
+};
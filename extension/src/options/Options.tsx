@@ -1,23 +1,27 @@
 import React, { useState, useEffect } from "react";
-
-interface ExtensionSettings {
-  edgeApiUrl: string;
-  enableTracking: boolean;
-  syncInterval: number;
-  debugMode: boolean;
-}
-
-const defaultSettings: ExtensionSettings = {
-  edgeApiUrl: "http://localhost:8787",
-  enableTracking: true,
-  syncInterval: 30,
-  debugMode: false,
-};
+import { BackupSettings } from "./BackupSettings";
+import { SitePermissions } from "./SitePermissions";
+import { useRemoteConfig } from "../shared/useRemoteConfig";
+import { ApiAccessError, verifyApiUrl } from "../shared/api-access";
+import { resetExtension } from "../shared/settings-backup";
+import {
+  defaultSettings,
+  MAX_SYNC_INTERVAL,
+  MIN_SYNC_INTERVAL,
+  settings as settingsService,
+  validateSettings,
+  type ExtensionSettings,
+  type SettingsErrors,
+} from "../shared/settings";
 
 export const Options: React.FC = () => {
   const [settings, setSettings] = useState<ExtensionSettings>(defaultSettings);
+  const [savedApiUrl, setSavedApiUrl] = useState(defaultSettings.edgeApiUrl);
   const [saved, setSaved] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<SettingsErrors>({});
   const [loading, setLoading] = useState(true);
+  const { isEnabled } = useRemoteConfig();
 
   useEffect(() => {
     loadSettings();
@@ -25,8 +29,9 @@ export const Options: React.FC = () => {
 
   const loadSettings = async () => {
     try {
-      const result = await chrome.storage.sync.get(defaultSettings);
-      setSettings(result as ExtensionSettings);
+      const result = await settingsService.get();
+      setSettings(result);
+      setSavedApiUrl(result.edgeApiUrl);
     } catch (error) {
       console.error("Failed to load settings:", error);
     } finally {
@@ -35,12 +40,35 @@ export const Options: React.FC = () => {
   };
 
   const saveSettings = async () => {
+    setSaveError(null);
+
+    const errors = validateSettings(settings);
+    setFieldErrors(errors);
+
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    // First thing awaited in the click handler, so Chrome still shows the
+    // permission prompt
+    if (settings.edgeApiUrl !== savedApiUrl) {
+      try {
+        await verifyApiUrl(settings.edgeApiUrl);
+      } catch (error) {
+        console.error("Edge API URL check failed:", error);
+        setSaveError(error instanceof ApiAccessError ? error.message : "Could not check the edge API URL");
+        return;
+      }
+    }
+
     try {
-      await chrome.storage.sync.set(settings);
+      await settingsService.update(settings);
+      setSavedApiUrl(settings.edgeApiUrl);
       setSaved(true);
       setTimeout(() => setSaved(false), 2000);
     } catch (error) {
       console.error("Failed to save settings:", error);
+      setSaveError("Could not save the settings");
     }
   };
 
@@ -51,8 +79,26 @@ export const Options: React.FC = () => {
     }));
   };
 
-  const resetSettings = () => {
-    setSettings(defaultSettings);
+  const resetSettings = async () => {
+    const confirmed = confirm(
+      "Reset all settings, remove the allowed sites and clear the extension's local data? " +
+        "You stay signed in, but changes that weren't synced yet are lost."
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    setSaveError(null);
+    setFieldErrors({});
+
+    try {
+      await resetExtension();
+      await loadSettings();
+    } catch (error) {
+      console.error("Failed to reset the extension:", error);
+      setSaveError("Could not reset the extension");
+    }
   };
 
   if (loading) {
@@ -82,7 +128,11 @@ export const Options: React.FC = () => {
               onChange={(e) => handleInputChange("edgeApiUrl", e.target.value)}
               placeholder="https://your-app.workers.dev"
             />
-            <small>The URL of your RedwoodSDK edge application</small>
+            {fieldErrors.edgeApiUrl && <small className="field-error">{fieldErrors.edgeApiUrl}</small>}
+            <small>
+              The URL of your RedwoodSDK edge application. Chrome asks for access to domains other than localhost
+              and workers.dev.
+            </small>
           </div>
         </div>
 
@@ -93,12 +143,17 @@ export const Options: React.FC = () => {
             <label>
               <input
                 type="checkbox"
-                checked={settings.enableTracking}
+                checked={settings.enableTracking && isEnabled("activityTracking")}
+                disabled={!isEnabled("activityTracking")}
                 onChange={(e) => handleInputChange("enableTracking", e.target.checked)}
               />
               Enable activity tracking
             </label>
-            <small>Track page visits and interactions</small>
+            <small>
+              {isEnabled("activityTracking")
+                ? "Track page visits and interactions"
+                : "Activity tracking is turned off on the server"}
+            </small>
           </div>
 
           <div className="setting-item">
@@ -106,15 +161,23 @@ export const Options: React.FC = () => {
             <input
               id="syncInterval"
               type="number"
-              min="5"
-              max="1440"
-              value={settings.syncInterval}
+              min={MIN_SYNC_INTERVAL}
+              max={MAX_SYNC_INTERVAL}
+              value={Number.isNaN(settings.syncInterval) ? "" : settings.syncInterval}
+              disabled={!isEnabled("dataSync")}
               onChange={(e) => handleInputChange("syncInterval", parseInt(e.target.value))}
             />
-            <small>How often to sync data with the server</small>
+            {fieldErrors.syncInterval && <small className="field-error">{fieldErrors.syncInterval}</small>}
+            <small>
+              {isEnabled("dataSync") ? "How often to sync data with the server" : "Sync is turned off on the server"}
+            </small>
           </div>
         </div>
 
+        <SitePermissions />
+
+        <BackupSettings onImported={loadSettings} />
+
         <div className="settings-section">
           <h2>Development</h2>
           
@@ -139,6 +202,7 @@ export const Options: React.FC = () => {
             Reset to Defaults
           </button>
           {saved && <span className="save-indicator">Settings saved!</span>}
+          {saveError && <span className="save-error">{saveError}</span>}
         </div>
       </div>
     </div>
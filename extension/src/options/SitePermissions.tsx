@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from "react";
+import { siteAccess } from "../shared/site-access";
+
+// Sites the content script runs on without the user opening the popup first.
+// Changes take effect right away, without "Save Settings".
+export const SitePermissions: React.FC = () => {
+  const [sites, setSites] = useState<string[]>([]);
+  const [newSite, setNewSite] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSites = async () => {
+    try {
+      setSites(await siteAccess.list());
+    } catch (error) {
+      console.error("Failed to load site permissions:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadSites();
+
+    // Sites can also be changed from Chrome's extension settings. The
+    // section lives as long as the options page, so the listeners stay.
+    chrome.permissions.onAdded.addListener(loadSites);
+    chrome.permissions.onRemoved.addListener(loadSites);
+  }, []);
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    const url = /^https?:\/\//.test(newSite) ? newSite : `https://${newSite}`;
+
+    if (!siteAccess.toOriginPattern(url)) {
+      setError("Enter a site like example.com or http://localhost:3000");
+      return;
+    }
+
+    try {
+      if (await siteAccess.grant(url)) {
+        setNewSite("");
+      }
+    } catch (error) {
+      console.error("Failed to allow site:", error);
+      setError("Could not allow this site");
+    }
+  };
+
+  const handleRemove = async (origin: string) => {
+    try {
+      await siteAccess.revoke(origin);
+    } catch (error) {
+      console.error("Failed to remove site:", error);
+    }
+  };
+
+  return (
+    <div className="settings-section">
+      <h2>Site Access</h2>
+
+      <div className="setting-item">
+        <small>
+          The extension only reads a page when you save it from the popup or the context menu, and runs on
+          these sites all the time.
+        </small>
+      </div>
+
+      {sites.length > 0 ? (
+        <ul className="site-list">
+          {sites.map((origin) => (
+            <li key={origin} className="site-item">
+              <span>{origin}</span>
+              <button onClick={() => handleRemove(origin)} className="btn btn-secondary">
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="site-list-empty">No sites yet</p>
+      )}
+
+      <form className="setting-item site-add" onSubmit={handleAdd}>
+        <input
+          type="text"
+          value={newSite}
+          onChange={(e) => setNewSite(e.target.value)}
+          placeholder="example.com"
+          aria-label="Site"
+        />
+        <button type="submit" className="btn btn-primary" disabled={!newSite.trim()}>
+          Allow
+        </button>
+      </form>
+      {error && <p className="site-error">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from "react";
+import { settings } from "../shared/settings";
+import { useRemoteConfig } from "../shared/useRemoteConfig";
+import { SavePage } from "./SavePage";
+import { SessionList } from "./SessionList";
+import { SyncActivity } from "./SyncActivity";
+import { TabContext } from "./TabContext";
+
+// What signed in users see: the current tab, saving it, sync activity, quick
+// links and where else they are signed in
+export const Dashboard: React.FC = () => {
+  const { isEnabled } = useRemoteConfig();
+  const [windowId, setWindowId] = useState<number | null>(null);
+
+  useEffect(() => {
+    chrome.windows
+      .getCurrent()
+      .then((window) => setWindowId(window.id ?? null))
+      .catch((error) => console.error("Failed to load the window:", error));
+  }, []);
+
+  const handleOpenApp = async () => {
+    try {
+      const { edgeApiUrl } = await settings.get();
+      await chrome.tabs.create({ url: edgeApiUrl });
+    } catch (error) {
+      console.error("Failed to open the web app:", error);
+    }
+  };
+
+  // Chrome only opens the side panel for a user gesture, so nothing may be
+  // awaited before `open`
+  const handleOpenSidePanel = () => {
+    if (windowId === null) {
+      return;
+    }
+
+    chrome.sidePanel.open({ windowId }).then(
+      () => window.close(),
+      (error) => console.error("Failed to open the side panel:", error)
+    );
+  };
+
+  return (
+    <div className="dashboard">
+      <TabContext />
+      {isEnabled("pageCapture") && <SavePage />}
+      {isEnabled("dataSync") ? <SyncActivity /> : <p className="sync-meta">Sync is turned off on the server</p>}
+      <div className="quick-actions">
+        <button onClick={handleOpenSidePanel} disabled={windowId === null} className="btn btn-link">
+          Open side panel
+        </button>
+        <button onClick={handleOpenApp} className="btn btn-link">
+          Open web app
+        </button>
+        <button onClick={() => chrome.runtime.openOptionsPage()} className="btn btn-link">
+          Settings
+        </button>
+      </div>
+      <SessionList />
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from "react";
+import { OUTBOX_DEPTH_KEY } from "../shared/outbox";
+
+// Shows how many requests the background is still waiting to send (see
+// `shared/outbox.ts`), e.g. while the browser is offline
+export const OutboxStatus: React.FC = () => {
+  const [depth, setDepth] = useState(0);
+
+  useEffect(() => {
+    chrome.storage.local
+      .get(OUTBOX_DEPTH_KEY)
+      .then((stored) => setDepth(stored[OUTBOX_DEPTH_KEY] ?? 0))
+      .catch((error) => console.error("Failed to load outbox status:", error));
+
+    const handleChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === "local" && changes[OUTBOX_DEPTH_KEY]) {
+        setDepth(changes[OUTBOX_DEPTH_KEY].newValue ?? 0);
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  if (depth === 0) {
+    return null;
+  }
+
+  return (
+    <div className="outbox-status">
+      {depth === 1 ? "1 change" : `${depth} changes`} waiting to be sent
+    </div>
+  );
+};
@@ -1,8 +1,12 @@
 import React from "react";
 import { useEdgeSession } from "../shared/useEdgeSession";
+import { useRemoteConfig } from "../shared/useRemoteConfig";
+import { Dashboard } from "./Dashboard";
+import { OutboxStatus } from "./OutboxStatus";
 
 export const Popup: React.FC = () => {
   const { user, isAuthenticated, isLoading, error, login, logout } = useEdgeSession();
+  const { updateRequired } = useRemoteConfig();
 
   const handleLogin = async () => {
     try {
@@ -40,6 +44,14 @@ export const Popup: React.FC = () => {
             <p>Error: {error}</p>
           </div>
         )}
+
+        {updateRequired && (
+          <div className="update-required">
+            <p>This version of the extension is no longer supported. Update it to keep using it.</p>
+          </div>
+        )}
+
+        <OutboxStatus />
         
         {isAuthenticated ? (
           <div className="authenticated-state">
@@ -50,6 +62,7 @@ export const Popup: React.FC = () => {
             <button onClick={handleLogout} className="btn btn-secondary">
               Logout
             </button>
+            <Dashboard />
           </div>
         ) : (
           <div className="unauthenticated-state">
@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import {
+  capturePage,
+  getActiveTab,
+  parseTags,
+  saveBookmark,
+  type Bookmark,
+  type PageCapture,
+} from "../shared/page-capture";
+
+interface SavePageProps {
+  onSaved?: (bookmark: Bookmark) => void;
+}
+
+// "Save this page": captures the active tab, lets the user add notes and
+// tags, and saves it to their bookmarks on the web app. Also used by the
+// side panel.
+export const SavePage: React.FC<SavePageProps> = ({ onSaved }) => {
+  const [page, setPage] = useState<PageCapture | null>(null);
+  const [notes, setNotes] = useState("");
+  const [tags, setTags] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCapture = async () => {
+    setBusy(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const tab = await getActiveTab();
+      if (!tab) {
+        throw new Error("No active tab");
+      }
+      setPage(await capturePage(tab));
+    } catch (error) {
+      console.error("Failed to capture page:", error);
+      setError(error instanceof Error ? error.message : "Could not read this page");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!page) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const bookmark = await saveBookmark({ ...page, notes: notes.trim() || undefined, tags: parseTags(tags) });
+      setPage(null);
+      setNotes("");
+      setTags("");
+      setSaved(true);
+      onSaved?.(bookmark);
+    } catch (error) {
+      console.error("Failed to save page:", error);
+      setError("Could not save this page");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!page) {
+    return (
+      <div className="save-page">
+        <button onClick={handleCapture} disabled={busy} className="btn btn-primary">
+          {busy ? "Reading page..." : "Save this page"}
+        </button>
+        {saved && <p className="save-page-status">Saved to your bookmarks</p>}
+        {error && <p className="save-page-error">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <form className="save-page" onSubmit={handleSave}>
+      <p className="save-page-title" title={page.url}>
+        {page.title}
+      </p>
+      <textarea
+        value={notes}
+        onChange={(event) => setNotes(event.target.value)}
+        placeholder="Notes"
+        rows={3}
+      />
+      <input
+        type="text"
+        value={tags}
+        onChange={(event) => setTags(event.target.value)}
+        placeholder="Tags, separated by commas"
+      />
+      <div className="save-page-actions">
+        <button type="submit" disabled={busy} className="btn btn-primary">
+          {busy ? "Saving..." : "Save"}
+        </button>
+        <button type="button" onClick={() => setPage(null)} disabled={busy} className="btn btn-link">
+          Cancel
+        </button>
+      </div>
+      {error && <p className="save-page-error">{error}</p>}
+    </form>
+  );
+};
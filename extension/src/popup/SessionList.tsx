@@ -0,0 +1,105 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { edgeDelete, edgeFetchJson, ReauthenticationRequiredError } from "../shared/edge-fetch";
+import { authFlow } from "../shared/auth-flow";
+
+interface EdgeSessionInfo {
+  id: string;
+  platform: "web" | "extension";
+  device: string;
+  country: string | null;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// Lists where the user is signed in (see `/api/sessions` on the worker), so a
+// lost laptop or a stale extension install can be signed out from here
+export const SessionList: React.FC = () => {
+  const [sessions, setSessions] = useState<EdgeSessionInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const data = await edgeFetchJson<{ sessions: EdgeSessionInfo[] }>("/api/sessions");
+      setSessions(data.sessions);
+      setError(null);
+    } catch (error) {
+      console.error("Failed to load sessions:", error);
+      setError("Could not load sessions");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const revokeSession = async (id: string) => {
+    const response = await edgeDelete(`/api/sessions/${encodeURIComponent(id)}`);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setRevokingId(id);
+    try {
+      try {
+        await revokeSession(id);
+      } catch (error) {
+        if (!(error instanceof ReauthenticationRequiredError)) {
+          throw error;
+        }
+
+        // The popup closes when the web app's tab opens, in which case
+        // signing out works when tried again after confirming
+        setError("Confirm it's you in the web app, then try again");
+        const { success } = await authFlow.reauthenticate();
+        if (!success) {
+          throw error;
+        }
+        await revokeSession(id);
+      }
+      setSessions(prev => prev.filter(session => session.id !== id));
+      setError(null);
+    } catch (error) {
+      console.error("Failed to sign out session:", error);
+      setError("Could not sign out that session");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="session-list">
+      <h2>Signed in on</h2>
+      {error && <p className="session-error">{error}</p>}
+      <ul>
+        {sessions.map(session => (
+          <li key={session.id} className="session-item">
+            <div>
+              <span className="session-device">
+                {session.platform === "extension" ? "Extension · " : ""}
+                {session.device}
+              </span>
+              <span className="session-meta">
+                {session.current
+                  ? "This session"
+                  : `Last seen ${new Date(session.lastSeenAt).toLocaleDateString()}`}
+                {session.country ? ` · ${session.country}` : ""}
+              </span>
+            </div>
+            {!session.current && (
+              <button
+                onClick={() => handleRevoke(session.id)}
+                disabled={revokingId === session.id}
+                className="btn btn-link"
+              >
+                Sign out
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
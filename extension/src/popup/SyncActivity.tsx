@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from "react";
+import { sendMessage } from "../shared/messages";
+import { syncClient, type SyncData, type SyncStatus } from "../shared/sync";
+
+interface RecentItem {
+  collection: string;
+  key: string;
+  data: SyncData;
+  updatedAt: string;
+}
+
+const RECENT_ITEMS = 5;
+
+// Records don't share a schema, so use whichever name-like field they have
+const itemLabel = ({ key, data }: RecentItem) =>
+  [data.title, data.name, data.url].find((value) => typeof value === "string" && value) ?? key;
+
+// The background's sync: when it last succeeded, why it last failed, the
+// changes still to push and the most recently changed records
+export const SyncActivity: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>({ lastSyncedAt: null, lastError: null });
+  const [pending, setPending] = useState(0);
+  const [recent, setRecent] = useState<RecentItem[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [status, pending, recent] = await Promise.all([
+          syncClient.getStatus(),
+          syncClient.getPendingCount(),
+          syncClient.listRecent(RECENT_ITEMS),
+        ]);
+        setStatus(status);
+        setPending(pending);
+        setRecent(recent);
+      } catch (error) {
+        console.error("Failed to load sync activity:", error);
+      }
+    };
+
+    load();
+    return syncClient.subscribe(load);
+  }, []);
+
+  // Failures end up in the sync status
+  const handleSync = async () => {
+    setSyncing(true);
+    try {
+      await sendMessage("SYNC_DATA");
+    } catch (error) {
+      console.error("Sync failed:", error);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <div className="sync-activity">
+      <div className="sync-activity-header">
+        <h2>Sync</h2>
+        <button onClick={handleSync} disabled={syncing} className="btn btn-link">
+          {syncing ? "Syncing..." : "Sync now"}
+        </button>
+      </div>
+      <p className="sync-meta">
+        {status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleString()}` : "Not synced yet"}
+        {pending > 0 && ` · ${pending === 1 ? "1 change" : `${pending} changes`} to sync`}
+      </p>
+      {status.lastError && <p className="sync-error">Last sync failed: {status.lastError}</p>}
+      {recent.length > 0 ? (
+        <ul className="sync-recent">
+          {recent.map((item) => (
+            <li key={`${item.collection}/${item.key}`}>
+              <span className="sync-item-label">{String(itemLabel(item))}</span>
+              <span className="sync-item-meta">
+                {item.collection} · {new Date(item.updatedAt).toLocaleDateString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="sync-meta">Nothing synced yet</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import { sendTabMessage, type PageData } from "../shared/messages";
+import { getActiveTab, searchBookmarks } from "../shared/page-capture";
+import { siteAccess } from "../shared/site-access";
+
+interface TabInfo {
+  page: Pick<PageData, "url" | "title">;
+  // Null while unknown, e.g. when the bookmarks couldn't be loaded
+  saved: boolean | null;
+  allowed: boolean;
+}
+
+// The content script only answers on sites it runs on, see `shared/site-access.ts`
+const PAGE_DATA_TIMEOUT = 1000; // 1 second
+
+// Asks the tab's content script first, as the page may have changed its URL
+// or title since the tab last reported them
+async function getPageData(tab: chrome.tabs.Tab): Promise<Pick<PageData, "url" | "title"> | null> {
+  try {
+    return await sendTabMessage(tab.id!, "GET_PAGE_DATA", undefined, { timeout: PAGE_DATA_TIMEOUT });
+  } catch {
+    return tab.url ? { url: tab.url, title: tab.title ?? tab.url } : null;
+  }
+}
+
+async function isSaved(url: string): Promise<boolean | null> {
+  try {
+    return (await searchBookmarks({ url })).length > 0;
+  } catch (error) {
+    console.error("Failed to look up bookmark:", error);
+    return null;
+  }
+}
+
+// The page in the active tab: whether it is saved to the user's bookmarks,
+// and whether the extension runs on its site
+export const TabContext: React.FC = () => {
+  const [tab, setTab] = useState<TabInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTab = async () => {
+    try {
+      const activeTab = await getActiveTab();
+      const page = activeTab?.id ? await getPageData(activeTab) : null;
+
+      if (!page || !siteAccess.toOriginPattern(page.url)) {
+        setTab(null);
+        return;
+      }
+
+      const [saved, allowed] = await Promise.all([isSaved(page.url), siteAccess.isGranted(page.url)]);
+      setTab({ page, saved, allowed });
+    } catch (error) {
+      console.error("Failed to load the current tab:", error);
+      setError("Could not read the current tab");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTab();
+  }, []);
+
+  const handleAllow = async () => {
+    setError(null);
+
+    try {
+      if (tab && (await siteAccess.grant(tab.page.url))) {
+        setTab({ ...tab, allowed: true });
+      }
+    } catch (error) {
+      console.error("Failed to allow site:", error);
+      setError("Could not allow this site");
+    }
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  if (!tab) {
+    return (
+      <div className="tab-context">
+        <p className="tab-context-empty">{error ?? "The extension can't be used on this page"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="tab-context">
+      <p className="tab-title" title={tab.page.url}>
+        {tab.page.title}
+      </p>
+      <p className="tab-host">{new URL(tab.page.url).host}</p>
+      <div className="tab-badges">
+        {tab.saved !== null && (
+          <span className={`tab-badge ${tab.saved ? "tab-badge-on" : ""}`}>
+            {tab.saved ? "Saved" : "Not saved"}
+          </span>
+        )}
+        <span className={`tab-badge ${tab.allowed ? "tab-badge-on" : ""}`}>
+          {tab.allowed ? "Runs on this site" : "Not allowed on this site"}
+        </span>
+      </div>
+      {!tab.allowed && (
+        <button onClick={handleAllow} className="btn btn-link">
+          Allow on this site
+        </button>
+      )}
+      {error && <p className="tab-context-error">{error}</p>}
+    </div>
+  );
+};
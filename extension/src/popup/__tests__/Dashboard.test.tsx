@@ -0,0 +1,112 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Dashboard } from '../Dashboard';
+import { mockChrome } from '../../test/setup';
+
+// The sections have tests of their own
+vi.mock('../TabContext', () => ({ TabContext: () => <div>Tab context</div> }));
+vi.mock('../SavePage', () => ({ SavePage: () => <div>Save page</div> }));
+vi.mock('../SyncActivity', () => ({ SyncActivity: () => <div>Sync activity</div> }));
+vi.mock('../SessionList', () => ({ SessionList: () => <div>Session list</div> }));
+
+const mockIsEnabled = vi.fn();
+vi.mock('../../shared/useRemoteConfig', () => ({
+  useRemoteConfig: () => ({ isEnabled: mockIsEnabled, updateRequired: false }),
+}));
+
+const mockGetSettings = vi.fn();
+vi.mock('../../shared/settings', () => ({
+  settings: { get: () => mockGetSettings() },
+}));
+
+describe('Dashboard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIsEnabled.mockReturnValue(true);
+    mockGetSettings.mockResolvedValue({ edgeApiUrl: 'https://app.example.com' });
+  });
+
+  it('should show every section', () => {
+    render(<Dashboard />);
+
+    expect(screen.getByText('Tab context')).toBeInTheDocument();
+    expect(screen.getByText('Save page')).toBeInTheDocument();
+    expect(screen.getByText('Sync activity')).toBeInTheDocument();
+    expect(screen.getByText('Session list')).toBeInTheDocument();
+  });
+
+  it('should hide saving pages when it is turned off', () => {
+    mockIsEnabled.mockImplementation((flag: string) => flag !== 'pageCapture');
+
+    render(<Dashboard />);
+
+    expect(screen.queryByText('Save page')).not.toBeInTheDocument();
+    expect(screen.getByText('Sync activity')).toBeInTheDocument();
+  });
+
+  it('should explain that sync is turned off', () => {
+    mockIsEnabled.mockImplementation((flag: string) => flag !== 'dataSync');
+
+    render(<Dashboard />);
+
+    expect(screen.queryByText('Sync activity')).not.toBeInTheDocument();
+    expect(screen.getByText('Sync is turned off on the server')).toBeInTheDocument();
+  });
+
+  it('should open the web app', async () => {
+    render(<Dashboard />);
+
+    fireEvent.click(screen.getByText('Open web app'));
+
+    await waitFor(() => {
+      expect(mockChrome.tabs.create).toHaveBeenCalledWith({ url: 'https://app.example.com' });
+    });
+  });
+
+  it('should handle errors opening the web app gracefully', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetSettings.mockRejectedValue(new Error('Storage unavailable'));
+
+    render(<Dashboard />);
+
+    fireEvent.click(screen.getByText('Open web app'));
+
+    await waitFor(() => {
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to open the web app:', expect.any(Error));
+    });
+
+    expect(mockChrome.tabs.create).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should open the side panel in this window', async () => {
+    const closeSpy = vi.spyOn(window, 'close').mockImplementation(() => {});
+    mockChrome.windows.getCurrent.mockResolvedValue({ id: 3 });
+
+    render(<Dashboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Open side panel')).not.toBeDisabled();
+    });
+
+    fireEvent.click(screen.getByText('Open side panel'));
+
+    expect(mockChrome.sidePanel.open).toHaveBeenCalledWith({ windowId: 3 });
+
+    await waitFor(() => {
+      expect(closeSpy).toHaveBeenCalled();
+    });
+
+    closeSpy.mockRestore();
+  });
+
+  it('should open the settings', () => {
+    render(<Dashboard />);
+
+    fireEvent.click(screen.getByText('Settings'));
+
+    expect(mockChrome.runtime.openOptionsPage).toHaveBeenCalled();
+  });
+});
@@ -9,9 +9,20 @@ vi.mock('../../shared/useEdgeSession', () => ({
   useEdgeSession: () => mockUseEdgeSession(),
 }));
 
+const mockUseRemoteConfig = vi.fn();
+vi.mock('../../shared/useRemoteConfig', () => ({
+  useRemoteConfig: () => mockUseRemoteConfig(),
+}));
+
+// The dashboard has tests of its own
+vi.mock('../Dashboard', () => ({
+  Dashboard: () => <div>Dashboard</div>,
+}));
+
 describe('Popup', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockUseRemoteConfig.mockReturnValue({ config: null, isEnabled: () => true, updateRequired: false });
   });
 
   it('should show loading state initially', () => {
@@ -94,6 +105,58 @@ describe('Popup', () => {
     expect(mockLogout).toHaveBeenCalled();
   });
 
+  it('should show the dashboard only when authenticated', async () => {
+    mockUseEdgeSession.mockReturnValue({
+      user: { id: '1', email: 'test@example.com' },
+      isAuthenticated: true,
+      isLoading: false,
+      error: null,
+      login: vi.fn(),
+      logout: vi.fn(),
+      refresh: vi.fn(),
+      updateUser: vi.fn(),
+    });
+
+    const { rerender } = render(<Popup />);
+
+    expect(screen.getByText('Dashboard')).toBeInTheDocument();
+
+    mockUseEdgeSession.mockReturnValue({
+      user: null,
+      isAuthenticated: false,
+      isLoading: false,
+      error: null,
+      login: vi.fn(),
+      logout: vi.fn(),
+      refresh: vi.fn(),
+      updateUser: vi.fn(),
+    });
+
+    rerender(<Popup />);
+
+    expect(screen.queryByText('Dashboard')).not.toBeInTheDocument();
+  });
+
+  it('should ask to update an unsupported version', async () => {
+    mockUseRemoteConfig.mockReturnValue({ config: null, isEnabled: () => false, updateRequired: true });
+    mockUseEdgeSession.mockReturnValue({
+      user: null,
+      isAuthenticated: false,
+      isLoading: false,
+      error: null,
+      login: vi.fn(),
+      logout: vi.fn(),
+      refresh: vi.fn(),
+      updateUser: vi.fn(),
+    });
+
+    render(<Popup />);
+
+    expect(
+      screen.getByText('This version of the extension is no longer supported. Update it to keep using it.')
+    ).toBeInTheDocument();
+  });
+
   it('should show user info without name when name is not provided', async () => {
     const mockUser = {
       id: '1',
@@ -0,0 +1,85 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SessionList } from '../SessionList';
+
+const { mockEdgeFetchJson, mockEdgeDelete, ReauthenticationRequiredError } = vi.hoisted(() => ({
+  mockEdgeFetchJson: vi.fn(),
+  mockEdgeDelete: vi.fn(),
+  ReauthenticationRequiredError: class extends Error {},
+}));
+vi.mock('../../shared/edge-fetch', () => ({
+  edgeFetchJson: (...args: unknown[]) => mockEdgeFetchJson(...args),
+  edgeDelete: (...args: unknown[]) => mockEdgeDelete(...args),
+  ReauthenticationRequiredError,
+}));
+
+const mockReauthenticate = vi.fn();
+vi.mock('../../shared/auth-flow', () => ({
+  authFlow: { reauthenticate: () => mockReauthenticate() },
+}));
+
+const session = (id: string, current: boolean) => ({
+  id,
+  platform: 'web',
+  device: `Device ${id}`,
+  country: null,
+  lastSeenAt: '2024-01-01T00:00:00.000Z',
+  current,
+});
+
+describe('SessionList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEdgeFetchJson.mockResolvedValue({ sessions: [session('s1', true), session('s2', false)] });
+    mockEdgeDelete.mockResolvedValue(new Response(null, { status: 204 }));
+  });
+
+  it('should sign out another session', async () => {
+    render(<SessionList />);
+
+    fireEvent.click(await screen.findByText('Sign out'));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Device s2')).not.toBeInTheDocument();
+    });
+
+    expect(mockEdgeDelete).toHaveBeenCalledWith('/api/sessions/s2');
+    expect(mockReauthenticate).not.toHaveBeenCalled();
+  });
+
+  it('should confirm it is the user and retry when the worker asks for it', async () => {
+    mockEdgeDelete.mockRejectedValueOnce(new ReauthenticationRequiredError());
+    mockReauthenticate.mockResolvedValue({ success: true });
+
+    render(<SessionList />);
+
+    fireEvent.click(await screen.findByText('Sign out'));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Device s2')).not.toBeInTheDocument();
+    });
+
+    expect(mockReauthenticate).toHaveBeenCalled();
+    expect(mockEdgeDelete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the session when the user does not confirm', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockEdgeDelete.mockRejectedValue(new ReauthenticationRequiredError());
+    mockReauthenticate.mockResolvedValue({ success: false, error: 'Authentication cancelled by user' });
+
+    render(<SessionList />);
+
+    fireEvent.click(await screen.findByText('Sign out'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Could not sign out that session')).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('Device s2')).toBeInTheDocument();
+    expect(mockEdgeDelete).toHaveBeenCalledTimes(1);
+
+    consoleSpy.mockRestore();
+  });
+});
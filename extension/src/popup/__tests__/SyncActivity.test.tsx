@@ -0,0 +1,143 @@
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SyncActivity } from '../SyncActivity';
+
+const mockSendMessage = vi.fn();
+vi.mock('../../shared/messages', () => ({
+  sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+}));
+
+const mockSyncClient = vi.hoisted(() => ({
+  getStatus: vi.fn(),
+  getPendingCount: vi.fn(),
+  listRecent: vi.fn(),
+  subscribe: vi.fn(),
+}));
+vi.mock('../../shared/sync', () => ({
+  syncClient: mockSyncClient,
+}));
+
+const lastSyncedAt = '2024-03-01T12:00:00.000Z';
+
+describe('SyncActivity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSyncClient.getStatus.mockResolvedValue({ lastSyncedAt, lastError: null });
+    mockSyncClient.getPendingCount.mockResolvedValue(0);
+    mockSyncClient.listRecent.mockResolvedValue([]);
+    mockSyncClient.subscribe.mockReturnValue(vi.fn());
+    mockSendMessage.mockResolvedValue({ success: true });
+  });
+
+  it('should show when the last sync succeeded', async () => {
+    render(<SyncActivity />);
+
+    await waitFor(() => {
+      expect(screen.getByText(`Last synced ${new Date(lastSyncedAt).toLocaleString()}`)).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('Nothing synced yet')).toBeInTheDocument();
+    expect(mockSyncClient.listRecent).toHaveBeenCalledWith(5);
+  });
+
+  it('should show a client that never synced', async () => {
+    mockSyncClient.getStatus.mockResolvedValue({ lastSyncedAt: null, lastError: null });
+
+    render(<SyncActivity />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Not synced yet')).toBeInTheDocument();
+    });
+  });
+
+  it('should show the last sync error', async () => {
+    mockSyncClient.getStatus.mockResolvedValue({ lastSyncedAt, lastError: 'HTTP 500: Internal Server Error' });
+
+    render(<SyncActivity />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Last sync failed: HTTP 500: Internal Server Error')).toBeInTheDocument();
+    });
+  });
+
+  it('should count the changes still to sync', async () => {
+    mockSyncClient.getPendingCount.mockResolvedValue(3);
+
+    render(<SyncActivity />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/3 changes to sync/)).toBeInTheDocument();
+    });
+  });
+
+  it('should list the recently synced items', async () => {
+    mockSyncClient.listRecent.mockResolvedValue([
+      { collection: 'notes', key: 'n1', data: { title: 'Shopping list' }, updatedAt: lastSyncedAt },
+      { collection: 'prefs', key: 'theme', data: { value: 'dark' }, updatedAt: lastSyncedAt },
+    ]);
+
+    render(<SyncActivity />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Shopping list')).toBeInTheDocument();
+    });
+
+    // Records without a name-like field show their key
+    expect(screen.getByText('theme')).toBeInTheDocument();
+    expect(screen.getAllByText(`notes · ${new Date(lastSyncedAt).toLocaleDateString()}`)).toHaveLength(1);
+  });
+
+  it('should reload when the sync state changes', async () => {
+    render(<SyncActivity />);
+
+    await waitFor(() => {
+      expect(mockSyncClient.subscribe).toHaveBeenCalled();
+    });
+
+    mockSyncClient.getPendingCount.mockResolvedValue(1);
+    const listener = mockSyncClient.subscribe.mock.calls[0][0];
+    await act(async () => listener());
+
+    expect(screen.getByText(/1 change to sync/)).toBeInTheDocument();
+  });
+
+  it('should stop listening when unmounted', async () => {
+    const unsubscribe = vi.fn();
+    mockSyncClient.subscribe.mockReturnValue(unsubscribe);
+
+    const { unmount } = render(<SyncActivity />);
+    unmount();
+
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it('should sync on demand', async () => {
+    render(<SyncActivity />);
+
+    fireEvent.click(screen.getByText('Sync now'));
+
+    expect(screen.getByText('Syncing...')).toBeInTheDocument();
+    expect(mockSendMessage).toHaveBeenCalledWith('SYNC_DATA');
+
+    await waitFor(() => {
+      expect(screen.getByText('Sync now')).toBeInTheDocument();
+    });
+  });
+
+  it('should handle sync errors gracefully', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSendMessage.mockRejectedValue(new Error('No response to SYNC_DATA within 10000ms'));
+
+    render(<SyncActivity />);
+
+    fireEvent.click(screen.getByText('Sync now'));
+
+    await waitFor(() => {
+      expect(consoleSpy).toHaveBeenCalledWith('Sync failed:', expect.any(Error));
+      expect(screen.getByText('Sync now')).toBeInTheDocument();
+    });
+
+    consoleSpy.mockRestore();
+  });
+});
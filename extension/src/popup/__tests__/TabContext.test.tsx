@@ -0,0 +1,172 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TabContext } from '../TabContext';
+import { mockChrome } from '../../test/setup';
+
+const mockSendTabMessage = vi.fn();
+vi.mock('../../shared/messages', () => ({
+  sendTabMessage: (...args: unknown[]) => mockSendTabMessage(...args),
+}));
+
+const mockEdgeFetchJson = vi.fn();
+vi.mock('../../shared/edge-fetch', () => ({
+  edgeFetchJson: (...args: unknown[]) => mockEdgeFetchJson(...args),
+  edgeDelete: vi.fn(),
+}));
+
+const mockIsGranted = vi.fn();
+const mockGrant = vi.fn();
+vi.mock('../../shared/site-access', () => ({
+  siteAccess: {
+    toOriginPattern: (url: string) => (/^https?:\/\//.test(url) ? `${new URL(url).origin}/*` : null),
+    isGranted: (url: string) => mockIsGranted(url),
+    grant: (url: string) => mockGrant(url),
+  },
+}));
+
+const tab = { id: 7, url: 'https://example.com/article', title: 'Tab title' };
+
+describe('TabContext', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockChrome.tabs.query.mockResolvedValue([tab]);
+    mockSendTabMessage.mockResolvedValue({
+      url: 'https://example.com/article#comments',
+      title: 'Page title',
+      timestamp: '2024-01-01T00:00:00.000Z',
+    });
+    mockEdgeFetchJson.mockResolvedValue({ bookmarks: [] });
+    mockIsGranted.mockResolvedValue(true);
+    mockGrant.mockResolvedValue(true);
+  });
+
+  it('should show the page reported by the content script', async () => {
+    render(<TabContext />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Page title')).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('example.com')).toBeInTheDocument();
+    expect(mockSendTabMessage).toHaveBeenCalledWith(7, 'GET_PAGE_DATA', undefined, { timeout: 1000 });
+    expect(mockEdgeFetchJson).toHaveBeenCalledWith(
+      `/api/bookmarks?${new URLSearchParams({ url: 'https://example.com/article#comments' })}`
+    );
+  });
+
+  it('should fall back to the tab when the content script does not answer', async () => {
+    mockSendTabMessage.mockRejectedValue(new Error('Receiving end does not exist'));
+
+    render(<TabContext />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Tab title')).toBeInTheDocument();
+    });
+
+    expect(mockIsGranted).toHaveBeenCalledWith('https://example.com/article');
+  });
+
+  it('should show whether the page is saved', async () => {
+    mockEdgeFetchJson.mockResolvedValue({ bookmarks: [{ id: 'b1' }] });
+
+    render(<TabContext />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Saved')).toBeInTheDocument();
+    });
+  });
+
+  it('should show an unsaved page', async () => {
+    render(<TabContext />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Not saved')).toBeInTheDocument();
+      expect(screen.getByText('Runs on this site')).toBeInTheDocument();
+    });
+
+    expect(screen.queryByText('Allow on this site')).not.toBeInTheDocument();
+  });
+
+  it('should leave out the saved badge when bookmarks cannot be loaded', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockEdgeFetchJson.mockRejectedValue(new Error('HTTP 500'));
+
+    render(<TabContext />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Page title')).toBeInTheDocument();
+    });
+
+    expect(screen.queryByText('Saved')).not.toBeInTheDocument();
+    expect(screen.queryByText('Not saved')).not.toBeInTheDocument();
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to look up bookmark:', expect.any(Error));
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should allow the site', async () => {
+    mockIsGranted.mockResolvedValue(false);
+
+    render(<TabContext />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Not allowed on this site')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText('Allow on this site'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Runs on this site')).toBeInTheDocument();
+    });
+
+    expect(mockGrant).toHaveBeenCalledWith('https://example.com/article#comments');
+  });
+
+  it('should keep the site not allowed when the user declines', async () => {
+    mockIsGranted.mockResolvedValue(false);
+    mockGrant.mockResolvedValue(false);
+
+    render(<TabContext />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Allow on this site')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText('Allow on this site'));
+
+    await waitFor(() => {
+      expect(mockGrant).toHaveBeenCalled();
+    });
+
+    expect(screen.getByText('Not allowed on this site')).toBeInTheDocument();
+  });
+
+  it('should explain pages the extension cannot be used on', async () => {
+    mockChrome.tabs.query.mockResolvedValue([{ id: 7, url: 'chrome://extensions/', title: 'Extensions' }]);
+    mockSendTabMessage.mockRejectedValue(new Error('Cannot access a chrome:// URL'));
+
+    render(<TabContext />);
+
+    await waitFor(() => {
+      expect(screen.getByText("The extension can't be used on this page")).toBeInTheDocument();
+    });
+
+    expect(mockEdgeFetchJson).not.toHaveBeenCalled();
+  });
+
+  it('should show an error when the tab cannot be read', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockChrome.tabs.query.mockRejectedValue(new Error('No window'));
+
+    render(<TabContext />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Could not read the current tab')).toBeInTheDocument();
+    });
+
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to load the current tab:', expect.any(Error));
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  handleMessages,
+  MAX_RESTORED_RECORDS,
+  MessageError,
+  sendMessage,
+  sendTabMessage,
+  serveStream,
+  subscribe,
+} from '../messages';
+import type { RealtimeEvent } from '../realtime';
+import { mockChrome } from '../../test/setup';
+
+const sender = { id: 'test-extension-id' } as chrome.runtime.MessageSender;
+
+// Registers the handlers and returns a function that delivers a message to
+// them the way Chrome does, resolving with what they answered
+const listen = (handlers: Parameters<typeof handleMessages>[0]) => {
+  handleMessages(handlers);
+  const listener = mockChrome.runtime.onMessage.addListener.mock.calls[0][0];
+
+  return async (message: unknown) => {
+    let answered = false;
+    let respond!: (result: unknown) => void;
+    const response = new Promise((resolve) => (respond = resolve));
+    const handled: boolean = listener(message, sender, (result: unknown) => {
+      answered = true;
+      respond(result);
+    });
+
+    // Answered right away, or later when the listener kept the channel open
+    return handled || answered ? { handled, response: await response } : { handled };
+  };
+};
+
+const mockPort = () => ({
+  name: '',
+  postMessage: vi.fn(),
+  disconnect: vi.fn(),
+  onMessage: { addListener: vi.fn(), removeListener: vi.fn() },
+  onDisconnect: { addListener: vi.fn(), removeListener: vi.fn() },
+});
+
+describe('messages', () => {
+  describe('handleMessages', () => {
+    it('should answer with the handler result', async () => {
+      const deliver = listen({ GET_AUTH_STATUS: () => ({ authenticated: true }) });
+
+      expect(await deliver({ type: 'GET_AUTH_STATUS' })).toEqual({
+        handled: true,
+        response: { ok: true, value: { authenticated: true } },
+      });
+    });
+
+    it('should leave other message types to other listeners', async () => {
+      const deliver = listen({ GET_AUTH_STATUS: () => ({ authenticated: true }) });
+
+      expect(await deliver({ type: 'CAPTURE_PAGE', payload: { tabId: 1 } })).toEqual({ handled: false });
+      expect(await deliver('GET_AUTH_STATUS')).toEqual({ handled: false });
+    });
+
+    it.each([
+      ['GET_AUTH_STATUS', { unexpected: true }, 'Expected no payload'],
+      ['SYNC_DATA', { collection: '', key: 'k' }, 'Expected a collection and key'],
+      ['SYNC_DATA', { collection: 'c', key: 'k', fields: [] }, 'fields must be an object'],
+      ['SYNC_DATA', { collection: 'c', key: 'k', deleted: 'yes' }, 'deleted must be a boolean'],
+      ['RESTORE_RECORDS', { records: {} }, 'Expected records'],
+      ['RESTORE_RECORDS', { records: [{ collection: 'c', key: 'k' }] }, 'Each record needs a collection, key and fields'],
+      ['TRACK_EVENT', { eventType: '', data: {} }, 'Expected an eventType'],
+      ['TRACK_EVENT', { eventType: 'click', data: null }, 'data must be an object'],
+      ['CAPTURE_PAGE', { tabId: '1' }, 'Expected a tabId'],
+    ])('should reject an invalid %s payload', async (type, payload, message) => {
+      const handler = vi.fn();
+      const deliver = listen({ [type]: handler });
+
+      expect(await deliver({ type, payload })).toEqual({
+        handled: false,
+        response: { ok: false, error: { code: 'invalid_message', message } },
+      });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should accept valid payloads', async () => {
+      const deliver = listen({
+        SYNC_DATA: () => ({ success: true }),
+        TRACK_EVENT: () => ({ success: true }),
+      });
+
+      expect((await deliver({ type: 'SYNC_DATA' })).response).toEqual({ ok: true, value: { success: true } });
+      expect(
+        (await deliver({ type: 'SYNC_DATA', payload: { collection: 'c', key: 'k', fields: { a: 1 } } })).response
+      ).toEqual({ ok: true, value: { success: true } });
+      expect((await deliver({ type: 'TRACK_EVENT', payload: { eventType: 'click', data: {} } })).response).toEqual({
+        ok: true,
+        value: { success: true },
+      });
+    });
+
+    it('should limit how many records can be restored at once', async () => {
+      const deliver = listen({ RESTORE_RECORDS: ({ records }) => ({ restored: records.length }) });
+      const record = { collection: 'c', key: 'k', fields: {} };
+
+      expect(
+        (await deliver({ type: 'RESTORE_RECORDS', payload: { records: Array(MAX_RESTORED_RECORDS).fill(record) } }))
+          .response
+      ).toEqual({ ok: true, value: { restored: MAX_RESTORED_RECORDS } });
+      expect(
+        (await deliver({ type: 'RESTORE_RECORDS', payload: { records: Array(MAX_RESTORED_RECORDS + 1).fill(record) } }))
+          .response
+      ).toEqual({
+        ok: false,
+        error: { code: 'invalid_message', message: `Expected at most ${MAX_RESTORED_RECORDS} records` },
+      });
+    });
+
+    it('should report a failing handler', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const deliver = listen({
+        CAPTURE_PAGE: async () => {
+          throw new Error('Saving pages is turned off');
+        },
+      });
+
+      expect((await deliver({ type: 'CAPTURE_PAGE', payload: { tabId: 1 } })).response).toEqual({
+        ok: false,
+        error: { code: 'handler_failed', message: 'Saving pages is turned off' },
+      });
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should stop listening when cleaned up', () => {
+      const cleanup = handleMessages({ GET_AUTH_STATUS: () => ({ authenticated: true }) });
+      const listener = mockChrome.runtime.onMessage.addListener.mock.calls[0][0];
+
+      cleanup();
+
+      expect(mockChrome.runtime.onMessage.removeListener).toHaveBeenCalledWith(listener);
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should resolve with the value from the envelope', async () => {
+      mockChrome.runtime.sendMessage.mockResolvedValue({ ok: true, value: { authenticated: true } });
+
+      await expect(sendMessage('GET_AUTH_STATUS')).resolves.toEqual({ authenticated: true });
+      expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({ type: 'GET_AUTH_STATUS', payload: undefined });
+    });
+
+    it('should rethrow the receiving side error as a MessageError', async () => {
+      mockChrome.runtime.sendMessage.mockResolvedValue({
+        ok: false,
+        error: { code: 'handler_failed', message: 'Saving pages is turned off' },
+      });
+
+      const error = await sendMessage('CAPTURE_PAGE', { tabId: 1 }).catch((error) => error);
+
+      expect(error).toBeInstanceOf(MessageError);
+      expect(error).toMatchObject({ code: 'handler_failed', message: 'Saving pages is turned off' });
+    });
+
+    it('should fail with no_receiver when nothing answered', async () => {
+      mockChrome.runtime.sendMessage.mockResolvedValue(undefined);
+
+      await expect(sendMessage('GET_AUTH_STATUS')).rejects.toMatchObject({
+        code: 'no_receiver',
+        message: 'Nothing handled GET_AUTH_STATUS',
+      });
+    });
+
+    it('should fail with no_receiver when Chrome rejects', async () => {
+      mockChrome.tabs.sendMessage.mockRejectedValue(new Error('Receiving end does not exist'));
+
+      await expect(sendTabMessage(7, 'GET_PAGE_DATA')).rejects.toMatchObject({
+        code: 'no_receiver',
+        message: 'Receiving end does not exist',
+      });
+      expect(mockChrome.tabs.sendMessage).toHaveBeenCalledWith(7, { type: 'GET_PAGE_DATA', payload: undefined });
+    });
+
+    describe('timeouts', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should fail with timeout when no response comes in time', async () => {
+        mockChrome.runtime.sendMessage.mockReturnValue(new Promise(() => {}));
+
+        const result = sendMessage('GET_AUTH_STATUS', undefined, { timeout: 500 }).catch((error) => error);
+        await vi.advanceTimersByTimeAsync(500);
+
+        expect(await result).toMatchObject({
+          code: 'timeout',
+          message: 'No response to GET_AUTH_STATUS within 500ms',
+        });
+      });
+
+      it('should clear the timer once answered', async () => {
+        mockChrome.runtime.sendMessage.mockResolvedValue({ ok: true, value: { authenticated: false } });
+
+        await sendMessage('GET_AUTH_STATUS');
+
+        expect(vi.getTimerCount()).toBe(0);
+      });
+    });
+  });
+
+  describe('subscribe', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should receive the messages posted on the stream', () => {
+      const port = mockPort();
+      mockChrome.runtime.connect.mockReturnValue(port);
+      const listener = vi.fn();
+
+      subscribe('REALTIME_EVENTS', listener);
+
+      expect(mockChrome.runtime.connect).toHaveBeenCalledWith({ name: 'stream:REALTIME_EVENTS' });
+      expect(port.onMessage.addListener).toHaveBeenCalledWith(listener);
+    });
+
+    it('should reconnect when the background restarts', () => {
+      const first = mockPort();
+      const second = mockPort();
+      mockChrome.runtime.connect.mockReturnValueOnce(first).mockReturnValueOnce(second);
+
+      subscribe('REALTIME_EVENTS', vi.fn());
+      first.onDisconnect.addListener.mock.calls[0][0]();
+      vi.advanceTimersByTime(1000);
+
+      expect(mockChrome.runtime.connect).toHaveBeenCalledTimes(2);
+      expect(second.onMessage.addListener).toHaveBeenCalled();
+    });
+
+    it('should disconnect and stop reconnecting when unsubscribed', () => {
+      const port = mockPort();
+      mockChrome.runtime.connect.mockReturnValue(port);
+
+      const unsubscribe = subscribe('REALTIME_EVENTS', vi.fn());
+      port.onDisconnect.addListener.mock.calls[0][0]();
+      unsubscribe();
+      vi.advanceTimersByTime(1000);
+
+      expect(port.disconnect).toHaveBeenCalled();
+      expect(mockChrome.runtime.connect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('serveStream', () => {
+    it('should post to each subscriber and clean up when it leaves', () => {
+      const stop = vi.fn();
+      const start = vi.fn((post: (message: RealtimeEvent) => void) => {
+        post({ type: 'sync.changed', sessionId: 's1', current: false });
+        return stop;
+      });
+
+      serveStream('REALTIME_EVENTS', start);
+      const handleConnect = mockChrome.runtime.onConnect.addListener.mock.calls[0][0];
+
+      const port = { ...mockPort(), name: 'stream:REALTIME_EVENTS' };
+      handleConnect(port);
+
+      expect(port.postMessage).toHaveBeenCalledWith({ type: 'sync.changed', sessionId: 's1', current: false });
+      expect(port.onDisconnect.addListener).toHaveBeenCalledWith(stop);
+
+      port.onDisconnect.addListener.mock.calls[0][0]();
+
+      expect(stop).toHaveBeenCalled();
+    });
+
+    it('should ignore ports of other streams', () => {
+      const start = vi.fn();
+
+      serveStream('REALTIME_EVENTS', start);
+      const handleConnect = mockChrome.runtime.onConnect.addListener.mock.calls[0][0];
+      handleConnect({ ...mockPort(), name: 'something-else' });
+
+      expect(start).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Outbox, OUTBOX_DEPTH_KEY, OUTBOX_RETRY_ALARM, type OutboxRequest } from '../outbox';
+import { mockChrome } from '../../test/setup';
+
+const { mockEdgeFetch, ReauthenticationRequiredError } = vi.hoisted(() => ({
+  mockEdgeFetch: vi.fn(),
+  ReauthenticationRequiredError: class extends Error {},
+}));
+vi.mock('../edge-fetch', () => ({
+  edgeFetch: (...args: unknown[]) => mockEdgeFetch(...args),
+  ReauthenticationRequiredError,
+}));
+
+const NOW = new Date('2024-01-01T00:00:00.000Z').getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+// jsdom has no IndexedDB, so the outbox gets an object store backed by a Map.
+// Requests succeed asynchronously, after `runRequest` has set `onsuccess`.
+const stored = new Map<string, OutboxRequest>();
+
+const idbRequest = (result?: unknown) => {
+  const request = { result } as { result: unknown; onsuccess: () => void };
+  Promise.resolve().then(() => request.onsuccess());
+  return request;
+};
+
+const objectStore = {
+  getAll: () => idbRequest([...stored.values()]),
+  put: (request: OutboxRequest) => {
+    stored.set(request.id, request);
+    return idbRequest(request.id);
+  },
+  delete: (id: string) => {
+    stored.delete(id);
+    return idbRequest();
+  },
+  clear: () => {
+    stored.clear();
+    return idbRequest();
+  },
+};
+
+const queue = (overrides: Partial<OutboxRequest> = {}) => {
+  const request: OutboxRequest = {
+    id: `r${stored.size + 1}`,
+    endpoint: '/api/events',
+    method: 'POST',
+    body: '{}',
+    createdAt: NOW,
+    attempts: 0,
+    nextAttemptAt: NOW,
+    ...overrides,
+  };
+  stored.set(request.id, request);
+  return request;
+};
+
+describe('Outbox', () => {
+  let outbox: Outbox;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    stored.clear();
+    vi.spyOn(Outbox.prototype as unknown as { getStore: () => Promise<IDBObjectStore> }, 'getStore').mockResolvedValue(
+      objectStore as unknown as IDBObjectStore
+    );
+    mockEdgeFetch.mockReset();
+    mockEdgeFetch.mockImplementation(async () => new Response(null, { status: 202 }));
+    outbox = new Outbox();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should send a queued request and remove it once accepted', async () => {
+    const id = await outbox.enqueue('/api/bookmarks', { body: { url: 'https://example.com' } });
+    await outbox.flush();
+
+    expect(mockEdgeFetch).toHaveBeenCalledWith('/api/bookmarks', {
+      method: 'POST',
+      headers: { 'Idempotency-Key': id },
+      body: '{"url":"https://example.com"}',
+    });
+    expect(stored.size).toBe(0);
+    expect(mockChrome.storage.local.set).toHaveBeenLastCalledWith({ [OUTBOX_DEPTH_KEY]: 0 });
+    expect(mockChrome.alarms.clear).toHaveBeenCalledWith(OUTBOX_RETRY_ALARM);
+  });
+
+  it.each([
+    [1, 0, 30 * 1000],
+    [3, 0, 2 * 60 * 1000],
+    [3, 1, 2.4 * 60 * 1000],
+    [12, 0, 60 * 60 * 1000],
+    [12, 1, 72 * 60 * 1000],
+  ])('should retry attempt %i with random %d after %ims', async (attempt, random, delay) => {
+    vi.mocked(Math.random).mockReturnValue(random);
+    mockEdgeFetch.mockImplementation(async () => new Response(null, { status: 503 }));
+    queue({ attempts: attempt - 1 });
+
+    await outbox.flush();
+
+    expect(stored.get('r1')).toMatchObject({
+      attempts: attempt,
+      nextAttemptAt: NOW + delay,
+      lastError: 'HTTP 503',
+    });
+    expect(mockChrome.alarms.create).toHaveBeenCalledWith(OUTBOX_RETRY_ALARM, { when: NOW + delay });
+    expect(mockChrome.storage.local.set).toHaveBeenLastCalledWith({ [OUTBOX_DEPTH_KEY]: 1 });
+  });
+
+  it.each([401, 408, 409, 429, 500])('should keep a request rejected with HTTP %i', async (status) => {
+    mockEdgeFetch.mockImplementation(async () => new Response(null, { status }));
+    queue();
+
+    await outbox.flush();
+
+    expect(stored.get('r1')).toMatchObject({ attempts: 1, lastError: `HTTP ${status}` });
+  });
+
+  it.each([400, 403, 404, 422])('should drop a request rejected with HTTP %i', async (status) => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockEdgeFetch.mockImplementation(async () => new Response(null, { status }));
+    queue();
+
+    await outbox.flush();
+
+    expect(stored.size).toBe(0);
+    expect(consoleSpy).toHaveBeenCalled();
+  });
+
+  it('should drop a request that needs re-authentication', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockEdgeFetch.mockRejectedValue(new ReauthenticationRequiredError());
+    queue();
+
+    await outbox.flush();
+
+    expect(stored.size).toBe(0);
+  });
+
+  it('should leave the rest of the queue alone while offline', async () => {
+    mockEdgeFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+    queue();
+    queue({ createdAt: NOW + 1 });
+
+    await outbox.flush();
+
+    expect(mockEdgeFetch).toHaveBeenCalledTimes(1);
+    expect(stored.get('r1')).toMatchObject({ attempts: 1, lastError: 'Failed to fetch' });
+    expect(stored.get('r2')).toMatchObject({ attempts: 0 });
+  });
+
+  it('should send a request again with the same idempotency key', async () => {
+    mockEdgeFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    queue();
+
+    await outbox.flush();
+    vi.setSystemTime(NOW + 60 * 1000);
+    await outbox.flush();
+
+    expect(mockEdgeFetch).toHaveBeenCalledTimes(2);
+    expect(mockEdgeFetch.mock.calls[1][1]).toMatchObject({ headers: { 'Idempotency-Key': 'r1' } });
+    expect(stored.size).toBe(0);
+  });
+
+  it('should carry on with the queue after a server error', async () => {
+    mockEdgeFetch.mockImplementation(async () => new Response(null, { status: 500 }));
+    queue();
+    queue({ createdAt: NOW + 1 });
+
+    await outbox.flush();
+
+    expect(mockEdgeFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop requests that are a week old without sending them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    queue({ createdAt: NOW - 7 * DAY - 1 });
+
+    await outbox.flush();
+
+    expect(mockEdgeFetch).not.toHaveBeenCalled();
+    expect(stored.size).toBe(0);
+  });
+
+  it('should wait for requests that are not due yet', async () => {
+    queue({ attempts: 2, nextAttemptAt: NOW + 10 * 60 * 1000 });
+
+    await outbox.flush();
+
+    expect(mockEdgeFetch).not.toHaveBeenCalled();
+    expect(mockChrome.alarms.create).toHaveBeenCalledWith(OUTBOX_RETRY_ALARM, { when: NOW + 10 * 60 * 1000 });
+  });
+
+  it('should not wake up sooner than Chrome alarms allow', async () => {
+    queue({ attempts: 1, nextAttemptAt: NOW + 1000 });
+
+    await outbox.flush();
+
+    expect(mockChrome.alarms.create).toHaveBeenCalledWith(OUTBOX_RETRY_ALARM, { when: NOW + 30 * 1000 });
+  });
+
+  it('should drop every request when cleared', async () => {
+    queue({ nextAttemptAt: NOW + DAY });
+    queue({ nextAttemptAt: NOW + DAY });
+
+    await outbox.clear();
+
+    expect(stored.size).toBe(0);
+    expect(mockChrome.storage.local.set).toHaveBeenLastCalledWith({ [OUTBOX_DEPTH_KEY]: 0 });
+    expect(mockChrome.alarms.clear).toHaveBeenCalledWith(OUTBOX_RETRY_ALARM);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  defaultSettings,
+  MAX_SYNC_INTERVAL,
+  MIN_SYNC_INTERVAL,
+  migrateSettings,
+  SETTINGS_VERSION,
+  SettingsService,
+} from '../settings';
+import { mockChrome } from '../../test/setup';
+
+describe('migrateSettings', () => {
+  it('should leave current settings alone', () => {
+    const values = { syncInterval: 7, edgeApiUrl: 'https://example.com/' };
+
+    expect(migrateSettings(values, SETTINGS_VERSION)).toBe(values);
+  });
+
+  it('should round the sync interval and keep it in range', () => {
+    expect(migrateSettings({ syncInterval: 12.6 }, 1)).toEqual({ syncInterval: 13 });
+    expect(migrateSettings({ syncInterval: 1 }, 1)).toEqual({ syncInterval: MIN_SYNC_INTERVAL });
+    expect(migrateSettings({ syncInterval: 100000 }, 1)).toEqual({ syncInterval: MAX_SYNC_INTERVAL });
+    expect(migrateSettings({ syncInterval: '45' }, 1)).toEqual({ syncInterval: 45 });
+  });
+
+  it('should replace a sync interval that is not a number', () => {
+    expect(migrateSettings({ syncInterval: 'soon' }, 1)).toEqual({ syncInterval: 30 });
+  });
+
+  it('should leave out an emptied sync interval, so it falls back to the default', () => {
+    expect(migrateSettings({ syncInterval: null, debugMode: true }, 1)).toEqual({ debugMode: true });
+  });
+
+  it('should strip trailing slashes from the edge API URL', () => {
+    expect(migrateSettings({ edgeApiUrl: 'https://example.com//' }, 1)).toEqual({
+      edgeApiUrl: 'https://example.com',
+    });
+  });
+
+  it('should keep the other settings', () => {
+    expect(migrateSettings({ enableTracking: false, debugMode: true }, 1)).toEqual({
+      enableTracking: false,
+      debugMode: true,
+    });
+  });
+});
+
+describe('SettingsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should migrate stored settings once, on first read', async () => {
+    mockChrome.storage.sync.get.mockImplementation(async (keys: string[]) =>
+      keys.includes('settingsVersion')
+        ? { syncInterval: 2, edgeApiUrl: 'https://example.com/' }
+        : { syncInterval: MIN_SYNC_INTERVAL, edgeApiUrl: 'https://example.com' }
+    );
+    const service = new SettingsService();
+
+    expect(await service.get()).toEqual({
+      ...defaultSettings,
+      syncInterval: MIN_SYNC_INTERVAL,
+      edgeApiUrl: 'https://example.com',
+    });
+    await service.get();
+
+    expect(mockChrome.storage.sync.set).toHaveBeenCalledTimes(1);
+    expect(mockChrome.storage.sync.set).toHaveBeenCalledWith({
+      syncInterval: MIN_SYNC_INTERVAL,
+      edgeApiUrl: 'https://example.com',
+      settingsVersion: SETTINGS_VERSION,
+    });
+  });
+
+  it('should not migrate settings that are up to date', async () => {
+    mockChrome.storage.sync.get.mockResolvedValue({ settingsVersion: SETTINGS_VERSION });
+
+    await new SettingsService().get();
+
+    expect(mockChrome.storage.sync.set).not.toHaveBeenCalled();
+  });
+});
@@ -2,11 +2,16 @@ import { renderHook, act, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { useEdgeSession } from '../useEdgeSession';
 import { mockChrome } from '../../test/setup';
-import { mockAuthenticatedState, mockUnauthenticatedState } from '../../test/mocks/edge-fetch';
+import { mockAuthenticatedState, mockEdgeFetchClient, mockUnauthenticatedState } from '../../test/mocks/edge-fetch';
+
+vi.mock('../edge-fetch', async () => (await import('../../test/mocks/edge-fetch')).edgeFetchModule);
 
 describe('useEdgeSession', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Signed out with nothing cached, unless a test says otherwise
+    mockUnauthenticatedState();
+    mockChrome.storage.sync.get.mockResolvedValue({});
   });
 
   it('should initialize with loading state', () => {
@@ -64,9 +69,9 @@ describe('useEdgeSession', () => {
       await result.current.login();
     });
 
-    // Should open a new tab for authentication
+    // Should open the web app's extension sign-in page
     expect(mockChrome.tabs.create).toHaveBeenCalledWith({
-      url: expect.stringContaining('/login'),
+      url: expect.stringContaining('/auth/extension?extensionId='),
     });
   });
 
@@ -76,10 +81,15 @@ describe('useEdgeSession', () => {
 
     const { result } = renderHook(() => useEdgeSession());
 
+    await waitFor(() => {
+      expect(result.current.isAuthenticated).toBe(true);
+    });
+
     await act(async () => {
       await result.current.logout();
     });
 
+    expect(mockEdgeFetchClient.logout).toHaveBeenCalled();
     expect(result.current.isAuthenticated).toBe(false);
     expect(result.current.user).toBe(null);
     expect(mockChrome.storage.sync.remove).toHaveBeenCalledWith('edgeSession');
@@ -152,10 +162,14 @@ describe('useEdgeSession', () => {
 
   it('should listen for storage changes', async () => {
     const { result } = renderHook(() => useEdgeSession());
-    
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
     expect(mockChrome.storage.onChanged.addListener).toHaveBeenCalled();
     
-    // Simulate storage change
+    // Simulate the background storing the session after signing in
     const listener = mockChrome.storage.onChanged.addListener.mock.calls[0][0];
     const mockSession = {
       user: { id: '1', email: 'test@example.com' },
@@ -165,7 +179,7 @@ describe('useEdgeSession', () => {
     };
 
     act(() => {
-      listener({ edgeSession: mockSession });
+      listener({ edgeSession: { newValue: mockSession } }, 'sync');
     });
 
     expect(result.current.isAuthenticated).toBe(true);
@@ -0,0 +1,77 @@
+import { siteAccess } from "./site-access";
+
+// The manifest only grants `localhost` and `*.workers.dev`. A self-hosted edge
+// API on another domain needs an optional host permission, which the options
+// page requests before saving the URL, and `EdgeFetchClient` won't send tokens
+// anywhere without one.
+
+// Matches `SERVICE_NAME` in the worker's `/api/health` route
+const EDGE_API_SERVICE = "rwsdk-standard";
+const HEALTH_CHECK_TIMEOUT = 5000; // 5 seconds
+
+export type ApiAccessErrorCode =
+  | "invalid_url"
+  | "permission_denied"
+  | "unreachable"
+  | "origin_not_allowed"
+  | "unhealthy";
+
+export class ApiAccessError extends Error {
+  constructor(
+    public code: ApiAccessErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiAccessError";
+  }
+}
+
+// Whether the extension may call `url` with the user's tokens
+export async function hasApiAccess(url: string): Promise<boolean> {
+  const origin = siteAccess.toOriginPattern(url);
+  return !!origin && chrome.permissions.contains({ origins: [origin] });
+}
+
+// Asks for access to the URL's origin (unless the manifest already grants it),
+// then checks that the worker answers there. Call it straight from a click
+// handler, as Chrome only shows the permission prompt for a user gesture.
+export async function verifyApiUrl(url: string): Promise<void> {
+  const origin = siteAccess.toOriginPattern(url);
+
+  if (!origin) {
+    throw new ApiAccessError("invalid_url", "Enter an http:// or https:// URL");
+  }
+
+  if (!(await chrome.permissions.request({ origins: [origin] }))) {
+    throw new ApiAccessError(
+      "permission_denied",
+      `The extension needs access to ${new URL(url).origin} to use it. Allow it when Chrome asks.`
+    );
+  }
+
+  let health: { status?: string; service?: string; error?: string; message?: string } | null;
+
+  try {
+    const response = await fetch(new URL("/api/health", url), {
+      credentials: "omit",
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT),
+    });
+    health = await response.json().catch(() => null);
+  } catch (error) {
+    console.error("Edge API health check failed:", error);
+    throw new ApiAccessError("unreachable", `Could not reach ${new URL(url).origin}`);
+  }
+
+  // The worker doesn't know this extension's ID, see its CORS settings
+  if (health?.error === "origin_not_allowed") {
+    throw new ApiAccessError("origin_not_allowed", health.message ?? "The edge API doesn't allow this extension");
+  }
+
+  if (health?.service !== EDGE_API_SERVICE) {
+    throw new ApiAccessError("unreachable", `${new URL(url).origin} is not a RedwoodSDK edge API`);
+  }
+
+  if (health.status !== "ok") {
+    throw new ApiAccessError("unhealthy", `${new URL(url).origin} answered, but can't reach its database`);
+  }
+}
@@ -1,4 +1,4 @@
-import { edgeFetch, authenticateWithPasskey, type TokenData } from "./edge-fetch";
+import { edgeFetch, edgeFetchClient, edgeLogout, authenticateWithPasskey, type TokenData } from "./edge-fetch";
 
 interface AuthFlowOptions {
   redirectUrl?: string;
@@ -111,7 +111,7 @@ export class EdgeAuthFlow {
   }
 
   // Traditional credential authentication
-  private async credentialAuth(credentials: { email: string; password: string }): Promise<AuthResult> {
+  private async credentialAuth(credentials: { email?: string; password?: string }): Promise<AuthResult> {
     const response = await edgeFetch("/api/auth/login", {
       method: "POST",
       body: JSON.stringify(credentials),
@@ -131,10 +131,15 @@ export class EdgeAuthFlow {
     };
   }
 
-  // Open web app authentication flow for extensions
-  private async openWebAuthFlow(): Promise<AuthResult> {
+  // Open web app authentication flow for extensions. `path` is the web app
+  // page to open, and `onSuccess` runs once it reports success.
+  private async openWebAuthFlow(
+    path = "/auth/extension",
+    onSuccess: () => Promise<AuthResult> = () => this.handleAuthSuccess()
+  ): Promise<AuthResult> {
     return new Promise((resolve) => {
-      const authUrl = `${this.baseUrl}/auth/extension?extensionId=${this.options.extensionId || 'unknown'}`;
+      const extensionId = this.options.extensionId || chrome.runtime.id;
+      const authUrl = `${this.baseUrl}${path}?extensionId=${encodeURIComponent(extensionId)}`;
       
       // Open authentication page
       chrome.tabs.create({ url: authUrl }, (tab) => {
@@ -156,7 +161,7 @@ export class EdgeAuthFlow {
             chrome.tabs.remove(tabId);
             
             // Extract auth data from URL or storage
-            this.handleAuthSuccess().then(resolve);
+            onSuccess().then(resolve);
           }
           
           // Check for error callback URL
@@ -195,24 +200,21 @@ export class EdgeAuthFlow {
     });
   }
 
-  // Handle successful authentication from web flow
+  // Handle successful authentication from web flow. The web app only
+  // navigates to the success page once the background has exchanged the
+  // handoff code, so the session is already in storage at this point.
   private async handleAuthSuccess(): Promise<AuthResult> {
     try {
-      // Wait a moment for session to be established
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const { edgeSession } = await chrome.storage.sync.get("edgeSession");
 
-      // Fetch user session
-      const response = await edgeFetch("/api/auth/session");
-      
-      if (!response.ok) {
+      if (!edgeSession?.user) {
         throw new Error("Failed to establish session");
       }
 
-      const user = await response.json();
-
       return {
         success: true,
-        user,
+        user: edgeSession.user,
+        tokenData: edgeFetchClient.getTokenData() ?? undefined,
       };
     } catch (error) {
       return {
@@ -222,11 +224,99 @@ export class EdgeAuthFlow {
     }
   }
 
+  // Exchange the one-time code handed over by the web app's /auth/extension
+  // page for bearer tokens (extension only)
+  async exchangeHandoffCode(code: string): Promise<AuthResult> {
+    try {
+      const response = await edgeFetch("/api/auth/extension/token", {
+        method: "POST",
+        body: JSON.stringify({ code, extensionId: chrome.runtime.id }),
+        skipAuth: true,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Code exchange failed");
+      }
+
+      const result = await response.json();
+      const tokenData: TokenData = {
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+        expiresAt: result.expiresAt ? new Date(result.expiresAt).getTime() : undefined,
+        sessionExpiresAt: result.sessionExpiresAt
+          ? new Date(result.sessionExpiresAt).getTime()
+          : undefined,
+      };
+
+      await edgeFetchClient.updateTokenData(tokenData);
+      await chrome.storage.sync.set({
+        edgeSession: {
+          user: result.user,
+          isAuthenticated: true,
+          isLoading: false,
+          error: null,
+        },
+      });
+
+      return {
+        success: true,
+        user: result.user,
+        tokenData,
+      };
+    } catch (error) {
+      console.error("Handoff code exchange failed:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Code exchange failed",
+      };
+    }
+  }
+
+  // Step-up verification for actions guarded by `requireApiRecentAuth` on the
+  // worker (extension only). Passkeys belong to the web app's origin, so the
+  // user verifies one on its /auth/extension/reauthenticate page, which hands a
+  // one-time code to the background (see `exchangeReauthenticationCode`).
+  // Retry the action once this succeeds.
+  async reauthenticate(): Promise<AuthResult> {
+    if (!isExtension) {
+      return { success: false, error: "Re-authentication must be completed in the web app" };
+    }
+
+    // The page only reports success once the code was redeemed
+    return this.openWebAuthFlow("/auth/extension/reauthenticate", async () => ({ success: true }));
+  }
+
+  // Redeem the one-time code handed over by the web app's
+  // /auth/extension/reauthenticate page, which marks the current session as
+  // recently authenticated (extension only)
+  async exchangeReauthenticationCode(code: string): Promise<AuthResult> {
+    try {
+      const response = await edgeFetch("/api/auth/extension/reauthenticate", {
+        method: "POST",
+        body: JSON.stringify({ code, extensionId: chrome.runtime.id }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Code exchange failed");
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error("Re-authentication code exchange failed:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Code exchange failed",
+      };
+    }
+  }
+
   // Logout from both platforms
   async logout(): Promise<void> {
     try {
       // Call server logout
-      await edgeFetch("/api/auth/logout", { method: "POST" });
+      await edgeLogout();
     } catch (error) {
       console.error("Server logout failed:", error);
     }
@@ -297,7 +387,4 @@ export class EdgeAuthFlow {
 }
 
 // Create default instance
-export const authFlow = new EdgeAuthFlow();
-
-// Export for custom configurations
-export { EdgeAuthFlow };
\ No newline at end of file
+export const authFlow = new EdgeAuthFlow();
\ No newline at end of file
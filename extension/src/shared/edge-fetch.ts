@@ -1,3 +1,5 @@
+import { hasApiAccess } from "./api-access";
+
 interface EdgeFetchOptions extends RequestInit {
   skipAuth?: boolean;
   skipRetry?: boolean;
@@ -7,6 +9,9 @@ interface TokenData {
   accessToken: string;
   refreshToken?: string;
   expiresAt?: number;
+  // When the server-side session ends if it goes unused. Every authenticated
+  // request pushes it back (see the `X-Session-Expires-At` response header).
+  sessionExpiresAt?: number;
 }
 
 interface WebAuthnCredential {
@@ -16,14 +21,98 @@ interface WebAuthnCredential {
   type: 'public-key';
 }
 
+// Thrown when the worker answers `403 reauthentication_required`: the action
+// needs a recent passkey verification. Call `authFlow.reauthenticate()` and
+// retry the request.
+class ReauthenticationRequiredError extends Error {
+  constructor(message = "Re-authentication required") {
+    super(message);
+    this.name = "ReauthenticationRequiredError";
+  }
+}
+
+// Thrown when the worker answers `403 origin_not_allowed`: this extension's ID
+// is missing from the worker's `ALLOWED_EXTENSION_IDS`. The message says so
+// and can be shown to the user as is.
+class OriginNotAllowedError extends Error {
+  constructor(message = "The edge API doesn't allow this extension") {
+    super(message);
+    this.name = "OriginNotAllowedError";
+  }
+}
+
+// WebAuthn binary fields travel as base64url strings, matching the JSON format
+// produced by @simplewebauthn on the worker.
+function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function bufferToBase64Url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
 class EdgeFetchClient {
   private baseUrl: string;
   private tokenData: TokenData | null = null;
   private refreshPromise: Promise<void> | null = null;
+  // Whether each origin is covered by a host permission, see `canSendTokens`
+  private grantedOrigins = new Map<string, boolean>();
 
   constructor() {
     this.baseUrl = this.getEdgeApiUrl();
     this.loadTokenData();
+    this.watchTokenData();
+    this.watchPermissions();
+  }
+
+  private watchPermissions(): void {
+    if (typeof chrome === 'undefined' || !chrome.permissions?.onAdded) return;
+
+    chrome.permissions.onAdded.addListener(() => this.grantedOrigins.clear());
+    chrome.permissions.onRemoved.addListener(() => this.grantedOrigins.clear());
+  }
+
+  // Tokens only go to origins the extension has a host permission for: the
+  // ones in the manifest, or a custom edge API URL the user allowed in the
+  // options. Anything else could be a typo or someone else's server.
+  private async canSendTokens(url: string): Promise<boolean> {
+    const { origin } = new URL(url);
+    let granted = this.grantedOrigins.get(origin);
+
+    if (granted === undefined) {
+      granted = await hasApiAccess(url);
+      this.grantedOrigins.set(origin, granted);
+
+      if (!granted) {
+        console.warn(`Not sending tokens to ${origin}: the extension has no access to it`);
+      }
+    }
+
+    return granted;
+  }
+
+  // Keep tokens in sync with other extension contexts (e.g. the background
+  // service worker storing tokens after the web sign-in handoff)
+  private watchTokenData(): void {
+    if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) return;
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes.tokenData) {
+        this.tokenData = changes.tokenData.newValue || null;
+      }
+    });
   }
 
   private getEdgeApiUrl(): string {
@@ -68,6 +157,12 @@ class EdgeFetchClient {
     return Date.now() >= this.tokenData.expiresAt - 60000; // Refresh 1 minute before expiry
   }
 
+  // Once the session has expired its refresh token is useless as well
+  private isSessionExpired(): boolean {
+    if (!this.tokenData?.sessionExpiresAt) return false;
+    return Date.now() >= this.tokenData.sessionExpiresAt;
+  }
+
   private async refreshAccessToken(): Promise<void> {
     if (!this.tokenData?.refreshToken) {
       throw new Error("No refresh token available");
@@ -107,6 +202,9 @@ class EdgeFetchClient {
         accessToken: newTokenData.accessToken,
         refreshToken: newTokenData.refreshToken || this.tokenData?.refreshToken,
         expiresAt: newTokenData.expiresAt ? new Date(newTokenData.expiresAt).getTime() : undefined,
+        sessionExpiresAt: newTokenData.sessionExpiresAt
+          ? new Date(newTokenData.sessionExpiresAt).getTime()
+          : this.tokenData?.sessionExpiresAt,
       });
     } catch (error) {
       console.error("Token refresh failed:", error);
@@ -128,18 +226,20 @@ class EdgeFetchClient {
     try {
       // Get authentication challenge from server if not provided
       let challenge = options?.challenge;
+      let rpId = options?.rpId;
       if (!challenge) {
         const challengeResponse = await this.fetch("/api/auth/webauthn/challenge", {
           skipAuth: true,
         });
         const challengeData = await challengeResponse.json();
-        challenge = challengeData.challenge;
+        challenge = challengeData.challenge as string;
+        rpId = rpId || challengeData.rpId;
       }
 
       const credential = await navigator.credentials.get({
         publicKey: {
-          challenge: new TextEncoder().encode(challenge),
-          rpId: options?.rpId || new URL(this.baseUrl).hostname,
+          challenge: base64UrlToBuffer(challenge),
+          rpId: rpId || new URL(this.baseUrl).hostname,
           userVerification: "preferred",
           timeout: 60000,
         },
@@ -163,15 +263,16 @@ class EdgeFetchClient {
         body: JSON.stringify({
           credential: {
             id: webauthnCredential.id,
-            rawId: Array.from(new Uint8Array(webauthnCredential.rawId)),
+            rawId: bufferToBase64Url(webauthnCredential.rawId),
             response: {
-              authenticatorData: Array.from(new Uint8Array(webauthnCredential.response.authenticatorData)),
-              clientDataJSON: Array.from(new Uint8Array(webauthnCredential.response.clientDataJSON)),
-              signature: Array.from(new Uint8Array(webauthnCredential.response.signature)),
-              userHandle: webauthnCredential.response.userHandle ? 
-                Array.from(new Uint8Array(webauthnCredential.response.userHandle)) : null,
+              authenticatorData: bufferToBase64Url(webauthnCredential.response.authenticatorData),
+              clientDataJSON: bufferToBase64Url(webauthnCredential.response.clientDataJSON),
+              signature: bufferToBase64Url(webauthnCredential.response.signature),
+              userHandle: webauthnCredential.response.userHandle ?
+                bufferToBase64Url(webauthnCredential.response.userHandle) : undefined,
             },
             type: webauthnCredential.type,
+            clientExtensionResults: credential.getClientExtensionResults(),
           },
         }),
         skipAuth: true,
@@ -187,6 +288,9 @@ class EdgeFetchClient {
           accessToken: authResult.accessToken,
           refreshToken: authResult.refreshToken,
           expiresAt: authResult.expiresAt ? new Date(authResult.expiresAt).getTime() : undefined,
+          sessionExpiresAt: authResult.sessionExpiresAt
+            ? new Date(authResult.sessionExpiresAt).getTime()
+            : undefined,
         });
       }
 
@@ -201,18 +305,23 @@ class EdgeFetchClient {
     const { skipAuth = false, skipRetry = false, ...fetchOptions } = options;
     
     // Ensure we have the latest settings
-    const settings = await chrome.storage.sync.get({ edgeApiUrl: this.baseUrl });
-    this.baseUrl = settings.edgeApiUrl;
+    await this.getBaseUrl();
     
     const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+    const sendTokens = !skipAuth && !!this.tokenData && (await this.canSendTokens(url));
     
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      ...fetchOptions.headers,
-    };
+    const headers = new Headers(fetchOptions.headers);
+    if (!headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
 
     // Handle token refresh if needed
-    if (!skipAuth && this.tokenData) {
+    if (sendTokens && this.tokenData && this.isSessionExpired()) {
+      // Skip a refresh that is bound to fail and continue without auth
+      await this.clearTokenData();
+    }
+
+    if (sendTokens && this.tokenData) {
       if (this.isTokenExpired() && this.tokenData.refreshToken) {
         try {
           await this.refreshAccessToken();
@@ -224,7 +333,7 @@ class EdgeFetchClient {
 
       // Add authentication if available
       if (this.tokenData?.accessToken) {
-        headers['Authorization'] = `Bearer ${this.tokenData.accessToken}`;
+        headers.set('Authorization', `Bearer ${this.tokenData.accessToken}`);
       }
     }
 
@@ -236,15 +345,15 @@ class EdgeFetchClient {
       });
 
       // Handle authentication errors with retry logic
-      if (response.status === 401 && !skipRetry && this.tokenData?.refreshToken) {
+      if (response.status === 401 && sendTokens && !skipRetry && this.tokenData?.refreshToken) {
         try {
           // Try to refresh token and retry request
           await this.refreshAccessToken();
           
           // Retry the request with new token
-          const retryHeaders = { ...headers };
+          const retryHeaders = new Headers(headers);
           if (this.tokenData?.accessToken) {
-            retryHeaders['Authorization'] = `Bearer ${this.tokenData.accessToken}`;
+            retryHeaders.set('Authorization', `Bearer ${this.tokenData.accessToken}`);
           }
           
           const retryResponse = await fetch(url, {
@@ -264,21 +373,42 @@ class EdgeFetchClient {
         await this.clearTokenData();
         throw new Error('Authentication required');
       } else if (response.status === 401) {
-        await this.clearTokenData();
+        if (sendTokens) {
+          await this.clearTokenData();
+        }
         throw new Error('Authentication required');
       }
 
+      if (response.status === 403) {
+        const errorData = await response.clone().json().catch(() => null);
+        if (errorData?.error === 'reauthentication_required') {
+          throw new ReauthenticationRequiredError(errorData.message);
+        }
+        if (errorData?.error === 'origin_not_allowed') {
+          throw new OriginNotAllowedError(errorData.message);
+        }
+      }
+
       // Extract and save new token data if provided
       const newAccessToken = response.headers.get('X-Access-Token');
       const newRefreshToken = response.headers.get('X-Refresh-Token');
       const expiresAt = response.headers.get('X-Token-Expires-At');
+      const sessionExpiresAt = response.headers.get('X-Session-Expires-At');
       
       if (newAccessToken) {
         await this.saveTokenData({
           accessToken: newAccessToken,
           refreshToken: newRefreshToken || this.tokenData?.refreshToken,
           expiresAt: expiresAt ? new Date(expiresAt).getTime() : undefined,
+          sessionExpiresAt: sessionExpiresAt
+            ? new Date(sessionExpiresAt).getTime()
+            : this.tokenData?.sessionExpiresAt,
         });
+      } else if (sessionExpiresAt && this.tokenData && sendTokens) {
+        const sessionExpiry = new Date(sessionExpiresAt).getTime();
+        if (sessionExpiry !== this.tokenData.sessionExpiresAt) {
+          await this.saveTokenData({ ...this.tokenData, sessionExpiresAt: sessionExpiry });
+        }
       }
 
       return response;
@@ -323,6 +453,24 @@ class EdgeFetchClient {
     return response.json();
   }
 
+  // Ends the session on the server. The refresh token goes along, so the
+  // server can revoke the session even when the access token has expired and
+  // can't be refreshed anymore.
+  async logout(): Promise<Response> {
+    return this.post(
+      '/api/auth/logout',
+      { refreshToken: this.tokenData?.refreshToken },
+      { skipRetry: true }
+    );
+  }
+
+  // Resolve the base URL from the latest settings
+  async getBaseUrl(): Promise<string> {
+    const settings = await chrome.storage.sync.get({ edgeApiUrl: this.baseUrl });
+    this.baseUrl = settings.edgeApiUrl;
+    return this.baseUrl;
+  }
+
   // Update base URL (useful when settings change)
   updateBaseUrl(newUrl: string): void {
     this.baseUrl = newUrl;
@@ -330,7 +478,12 @@ class EdgeFetchClient {
 
   // Get current auth status
   isAuthenticated(): boolean {
-    return this.tokenData?.accessToken !== null && !this.isTokenExpired();
+    return this.tokenData?.accessToken !== null && !this.isTokenExpired() && !this.isSessionExpired();
+  }
+
+  // When the session ends if the extension stops using it, or null if unknown
+  getSessionExpiresAt(): number | null {
+    return this.tokenData?.sessionExpiresAt ?? null;
   }
 
   // Get current token data (for debugging/advanced usage)
@@ -356,12 +509,13 @@ export const edgePost = edgeFetchClient.post.bind(edgeFetchClient);
 export const edgePut = edgeFetchClient.put.bind(edgeFetchClient);
 export const edgeDelete = edgeFetchClient.delete.bind(edgeFetchClient);
 export const edgeFetchJson = edgeFetchClient.fetchJson.bind(edgeFetchClient);
+export const edgeLogout = edgeFetchClient.logout.bind(edgeFetchClient);
 
 // Export WebAuthn authentication
 export const authenticateWithPasskey = edgeFetchClient.authenticateWithPasskey.bind(edgeFetchClient);
 
 // Export client for advanced usage
-export { edgeFetchClient };
+export { edgeFetchClient, OriginNotAllowedError, ReauthenticationRequiredError };
 
 // Export types for external usage
 export type { EdgeFetchOptions, TokenData, WebAuthnCredential };
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { outbox } from "./outbox";
+import { settings } from "./settings";
+
+// Collects events tracked by content scripts in `chrome.storage.local` and
+// sends them to the web app's `/api/events` in batches, through the outbox so
+// a batch survives being offline. Nothing is recorded or sent while the
+// `enableTracking` option is off.
+
+// Alarm that sends a batch that did not fill up
+export const EVENT_FLUSH_ALARM = "flush-events";
+
+const STORAGE_KEY = "pendingEvents";
+const FLUSH_THRESHOLD = 20; // Send right away once this many are waiting
+const MAX_BATCH_SIZE = 50; // Matches `MAX_EVENT_BATCH_SIZE` on the worker
+const MAX_PENDING_EVENTS = 500; // Older events are dropped beyond this
+
+interface TrackedEvent {
+  id: string;
+  type: string;
+  data: Record<string, unknown>;
+  url?: string;
+  occurredAt: string;
+}
+
+export class EventTracker {
+  // Storage updates run one at a time, so concurrent messages don't
+  // overwrite each other's events
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async isEnabled(): Promise<boolean> {
+    const { enableTracking } = await settings.get();
+    return enableTracking;
+  }
+
+  private async loadPending(): Promise<TrackedEvent[]> {
+    const stored = await chrome.storage.local.get(STORAGE_KEY);
+    return stored[STORAGE_KEY] ?? [];
+  }
+
+  private async savePending(events: TrackedEvent[]): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY]: events });
+  }
+
+  // Returns false when tracking is turned off
+  async track(type: string, data: Record<string, unknown> = {}, url?: string): Promise<boolean> {
+    if (!(await this.isEnabled())) {
+      return false;
+    }
+
+    const count = await this.serialize(async () => {
+      const pending = await this.loadPending();
+      pending.push({ id: crypto.randomUUID(), type, data, url, occurredAt: new Date().toISOString() });
+      await this.savePending(pending.slice(-MAX_PENDING_EVENTS));
+      return pending.length;
+    });
+
+    if (count >= FLUSH_THRESHOLD) {
+      await this.flush();
+    } else if (!(await chrome.alarms.get(EVENT_FLUSH_ALARM))) {
+      await chrome.alarms.create(EVENT_FLUSH_ALARM, { delayInMinutes: 1 });
+    }
+
+    return true;
+  }
+
+  // Hands the waiting events to the outbox
+  flush(): Promise<void> {
+    return this.serialize(async () => {
+      const pending = await this.loadPending();
+
+      // Turning tracking off also drops what was not sent yet
+      if (pending.length > 0 && (await this.isEnabled())) {
+        for (let start = 0; start < pending.length; start += MAX_BATCH_SIZE) {
+          await outbox.enqueue("/api/events", {
+            body: { events: pending.slice(start, start + MAX_BATCH_SIZE) },
+          });
+        }
+      }
+
+      await this.savePending([]);
+      await chrome.alarms.clear(EVENT_FLUSH_ALARM);
+    });
+  }
+}
+
+export const eventTracker = new EventTracker();
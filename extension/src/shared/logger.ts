@@ -0,0 +1,35 @@
+import { defaultSettings, settings } from "./settings";
+
+// Console logging for every extension context. `debug` and `info` only print
+// while the `debugMode` option is on; warnings and errors always do. Messages
+// are prefixed with the scope, e.g. "[background]", to tell contexts apart in
+// the service worker's console.
+
+let debugMode = defaultSettings.debugMode;
+
+// Content scripts and tests can load this before `chrome` is usable
+if (typeof chrome !== "undefined" && chrome.storage?.sync) {
+  settings.get().then(
+    (current) => (debugMode = current.debugMode),
+    () => undefined
+  );
+  settings.subscribe((current) => (debugMode = current.debugMode));
+}
+
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export function createLogger(scope: string): Logger {
+  const prefix = `[${scope}]`;
+
+  return {
+    debug: (...args) => debugMode && console.debug(prefix, ...args),
+    info: (...args) => debugMode && console.info(prefix, ...args),
+    warn: (...args) => console.warn(prefix, ...args),
+    error: (...args) => console.error(prefix, ...args),
+  };
+}
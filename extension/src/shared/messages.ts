@@ -0,0 +1,285 @@
+import type { RealtimeEvent } from "./realtime";
+
+// Typed messages between the popup, options page, content scripts and the
+// background service worker. Every message has a request and response type
+// in `Messages` and a payload validator that the receiving side runs before
+// its handler. Responses travel in an envelope, so a handler's error is
+// rethrown to the caller as a `MessageError` instead of being lost.
+
+export interface SyncDataPayload {
+  collection: string;
+  key: string;
+  fields?: Record<string, unknown>;
+  deleted?: boolean;
+}
+
+export interface TrackEventPayload {
+  eventType: string;
+  data: Record<string, unknown>;
+}
+
+export interface PageData {
+  url: string;
+  title: string;
+  timestamp: string;
+}
+
+// Built by the content script's extractors, see `content/extractors.ts`
+export interface ExtractedPageData extends PageData {
+  description: string;
+  headings: string[];
+  forms: number;
+  canonicalUrl?: string;
+  lang?: string;
+  favicon?: string;
+  // Main content of the page as plain text, paragraphs separated by blank lines
+  content?: string;
+  wordCount?: number;
+  // `og:*` and `twitter:*` meta tags, without the prefix
+  openGraph?: Record<string, string>;
+  twitterCard?: Record<string, string>;
+  // Parsed JSON-LD scripts
+  structuredData?: unknown[];
+  selection?: string;
+}
+
+// A page saved to the user's bookmarks, see `shared/page-capture.ts`
+export interface PageCapture {
+  url: string;
+  title: string;
+  description?: string;
+  extracted: Record<string, unknown>;
+}
+
+export interface Messages {
+  GET_AUTH_STATUS: { request: void; response: { authenticated: boolean } };
+  // Without a payload, only syncs
+  SYNC_DATA: { request: SyncDataPayload | void; response: { success: boolean } };
+  // Sets the fields of each record, then syncs once. Used to import a backup.
+  RESTORE_RECORDS: { request: { records: SyncDataPayload[] }; response: { restored: number } };
+  TRACK_EVENT: { request: TrackEventPayload; response: { success: boolean; tracked?: boolean } };
+  // Injects the content script into the tab and extracts its data
+  CAPTURE_PAGE: { request: { tabId: number }; response: PageCapture };
+  // Handled by content scripts, see `sendTabMessage`
+  GET_PAGE_DATA: { request: void; response: PageData };
+  EXTRACT_DATA: { request: void; response: ExtractedPageData };
+}
+
+export type MessageType = keyof Messages;
+export type MessageRequest<K extends MessageType> = Messages[K]["request"];
+export type MessageResponse<K extends MessageType> = Messages[K]["response"];
+
+// Messages posted on long-lived ports, see `subscribe` and `serveStream`
+export interface Streams {
+  // Relayed from the background's realtime connection
+  REALTIME_EVENTS: RealtimeEvent;
+}
+
+export type StreamName = keyof Streams;
+
+export type MessageErrorCode = "invalid_message" | "handler_failed" | "timeout" | "no_receiver";
+
+export class MessageError extends Error {
+  constructor(
+    public code: MessageErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "MessageError";
+  }
+}
+
+type MessageResult<T> = { ok: true; value: T } | { ok: false; error: { code: MessageErrorCode; message: string } };
+
+const DEFAULT_TIMEOUT = 10 * 1000; // 10 seconds
+const STREAM_PORT_PREFIX = "stream:";
+// Ports close when the background service worker stops
+const STREAM_RECONNECT_DELAY = 1000; // 1 second
+// Records one RESTORE_RECORDS message may carry
+export const MAX_RESTORED_RECORDS = 1000;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isName = (value: unknown) => typeof value === "string" && value.length > 0 && value.length <= 128;
+
+const noPayload = (payload: unknown) => (payload === undefined ? null : "Expected no payload");
+
+// Return a description of what is wrong with the payload, or null
+const validators: { [K in MessageType]: (payload: unknown) => string | null } = {
+  GET_AUTH_STATUS: noPayload,
+  SYNC_DATA: (payload) => {
+    if (payload === undefined) return null;
+    if (!isObject(payload) || !isName(payload.collection) || !isName(payload.key)) {
+      return "Expected a collection and key";
+    }
+    if (payload.fields !== undefined && !isObject(payload.fields)) return "fields must be an object";
+    if (payload.deleted !== undefined && typeof payload.deleted !== "boolean") return "deleted must be a boolean";
+    return null;
+  },
+  RESTORE_RECORDS: (payload) => {
+    if (!isObject(payload) || !Array.isArray(payload.records)) return "Expected records";
+    if (payload.records.length > MAX_RESTORED_RECORDS) return `Expected at most ${MAX_RESTORED_RECORDS} records`;
+    const valid = payload.records.every(
+      (record) => isObject(record) && isName(record.collection) && isName(record.key) && isObject(record.fields)
+    );
+    return valid ? null : "Each record needs a collection, key and fields";
+  },
+  TRACK_EVENT: (payload) => {
+    if (!isObject(payload) || typeof payload.eventType !== "string" || !payload.eventType) {
+      return "Expected an eventType";
+    }
+    return isObject(payload.data) ? null : "data must be an object";
+  },
+  CAPTURE_PAGE: (payload) =>
+    isObject(payload) && Number.isInteger(payload.tabId) ? null : "Expected a tabId",
+  GET_PAGE_DATA: noPayload,
+  EXTRACT_DATA: noPayload,
+};
+
+async function request<K extends MessageType>(
+  send: (message: { type: K; payload: MessageRequest<K> }) => Promise<unknown>,
+  type: K,
+  payload: MessageRequest<K>,
+  timeout: number
+): Promise<MessageResponse<K>> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new MessageError("timeout", `No response to ${type} within ${timeout}ms`)), timeout);
+  });
+
+  try {
+    const result = (await Promise.race([send({ type, payload }), timedOut])) as
+      | MessageResult<MessageResponse<K>>
+      | undefined;
+
+    if (!result) {
+      throw new MessageError("no_receiver", `Nothing handled ${type}`);
+    }
+
+    if (!result.ok) {
+      throw new MessageError(result.error.code, result.error.message);
+    }
+
+    return result.value;
+  } catch (error) {
+    if (error instanceof MessageError) {
+      throw error;
+    }
+
+    // Chrome rejects when no context is listening, e.g. a tab without the content script
+    throw new MessageError("no_receiver", error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Sends a message to the background service worker and extension pages
+export function sendMessage<K extends MessageType>(
+  type: K,
+  payload?: MessageRequest<K>,
+  { timeout = DEFAULT_TIMEOUT }: { timeout?: number } = {}
+): Promise<MessageResponse<K>> {
+  return request((message) => chrome.runtime.sendMessage(message), type, payload as MessageRequest<K>, timeout);
+}
+
+// Sends a message to the content script of a tab
+export function sendTabMessage<K extends MessageType>(
+  tabId: number,
+  type: K,
+  payload?: MessageRequest<K>,
+  { timeout = DEFAULT_TIMEOUT }: { timeout?: number } = {}
+): Promise<MessageResponse<K>> {
+  return request((message) => chrome.tabs.sendMessage(tabId, message), type, payload as MessageRequest<K>, timeout);
+}
+
+export type MessageHandlers = {
+  [K in MessageType]?: (
+    payload: MessageRequest<K>,
+    sender: chrome.runtime.MessageSender
+  ) => MessageResponse<K> | Promise<MessageResponse<K>>;
+};
+
+// Answers the given message types in this context. Other messages are left
+// to other listeners, without keeping their channel open.
+export function handleMessages(handlers: MessageHandlers): () => void {
+  const listener = (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (result: MessageResult<unknown>) => void
+  ) => {
+    if (!isObject(message) || typeof message.type !== "string" || !(message.type in handlers)) {
+      return false;
+    }
+
+    const type = message.type as MessageType;
+    const invalid = validators[type](message.payload);
+
+    if (invalid) {
+      sendResponse({ ok: false, error: { code: "invalid_message", message: invalid } });
+      return false;
+    }
+
+    const handler = handlers[type] as (payload: unknown, sender: chrome.runtime.MessageSender) => unknown;
+
+    Promise.resolve()
+      .then(() => handler(message.payload, sender))
+      .then(
+        (value) => sendResponse({ ok: true, value }),
+        (error) => {
+          console.error(`Handling ${type} failed:`, error);
+          sendResponse({
+            ok: false,
+            error: { code: "handler_failed", message: error instanceof Error ? error.message : String(error) },
+          });
+        }
+      );
+
+    return true; // The response is sent asynchronously
+  };
+
+  chrome.runtime.onMessage.addListener(listener);
+  return () => chrome.runtime.onMessage.removeListener(listener);
+}
+
+// Receives the messages posted on a stream until the returned function is
+// called, reconnecting when the background service worker restarts
+export function subscribe<K extends StreamName>(name: K, listener: (message: Streams[K]) => void): () => void {
+  let port: chrome.runtime.Port | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const connect = () => {
+    port = chrome.runtime.connect({ name: STREAM_PORT_PREFIX + name });
+    port.onMessage.addListener(listener);
+    port.onDisconnect.addListener(() => {
+      if (!closed) {
+        reconnectTimer = setTimeout(connect, STREAM_RECONNECT_DELAY);
+      }
+    });
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    port?.disconnect();
+  };
+}
+
+// Serves a stream from this context: `start` runs for every subscriber with a
+// function that posts to it, and returns the cleanup to run when it leaves
+export function serveStream<K extends StreamName>(
+  name: K,
+  start: (post: (message: Streams[K]) => void) => () => void
+): void {
+  chrome.runtime.onConnect.addListener((port) => {
+    if (port.name !== STREAM_PORT_PREFIX + name) {
+      return;
+    }
+
+    const stop = start((message) => port.postMessage(message));
+    port.onDisconnect.addListener(stop);
+  });
+}
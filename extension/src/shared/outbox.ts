@@ -0,0 +1,215 @@
+import { edgeFetch, ReauthenticationRequiredError } from "./edge-fetch";
+
+// Persistent queue for mutating API requests made from the background service
+// worker. Requests are stored in IndexedDB before they are sent, so they
+// survive the service worker being stopped, and are replayed with exponential
+// backoff until the server accepts them. Each request is sent with its id as
+// the `Idempotency-Key`, so a request whose response was lost and is sent
+// again is only applied once (see `standard/src/app/api/idempotency.ts`).
+
+const DB_NAME = "edge-outbox";
+const STORE_NAME = "requests";
+// Alarm that wakes the service worker for the next retry
+export const OUTBOX_RETRY_ALARM = "outbox-retry";
+// Mirrored to `chrome.storage.local` so the popup can show it
+export const OUTBOX_DEPTH_KEY = "outboxDepth";
+
+const INITIAL_RETRY_DELAY = 30 * 1000; // Chrome alarms fire after 30s at the earliest
+const MAX_RETRY_DELAY = 60 * 60 * 1000; // 1 hour
+const MAX_REQUEST_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface OutboxRequest {
+  id: string;
+  endpoint: string;
+  method: string;
+  body?: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// Promise wrappers around the few IndexedDB calls the outbox needs
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Responses that won't change when the request is sent again. 409 means an
+// earlier attempt is still being handled.
+const isPermanentFailure = (status: number) =>
+  status >= 400 && status < 500 && ![401, 408, 409, 429].includes(status);
+
+const getRetryDelay = (attempts: number) => {
+  const delay = Math.min(INITIAL_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+  // Up to 20% jitter, so installs that went offline together don't retry together
+  return delay + Math.random() * delay * 0.2;
+};
+
+export class Outbox {
+  private database: Promise<IDBDatabase> | null = null;
+  private flushPromise: Promise<void> | null = null;
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    this.database ??= openDatabase();
+    const database = await this.database;
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private async getAll(): Promise<OutboxRequest[]> {
+    const requests = await runRequest<OutboxRequest[]>((await this.getStore("readonly")).getAll());
+    return requests.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  private async put(request: OutboxRequest): Promise<void> {
+    await runRequest((await this.getStore("readwrite")).put(request));
+  }
+
+  private async delete(id: string): Promise<void> {
+    await runRequest((await this.getStore("readwrite")).delete(id));
+  }
+
+  // Queues a request and tries to send it right away. Resolves once it is
+  // stored, not when it is delivered.
+  async enqueue(endpoint: string, init: { method?: string; body?: unknown } = {}): Promise<string> {
+    const now = Date.now();
+    const request: OutboxRequest = {
+      id: crypto.randomUUID(),
+      endpoint,
+      method: init.method ?? "POST",
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    };
+
+    await this.put(request);
+    this.flush().catch((error) => {
+      console.error("Outbox flush failed:", error);
+    });
+
+    return request.id;
+  }
+
+  // Drops every queued request. Called when the user signs out, so their
+  // requests are never sent with someone else's tokens.
+  async clear(): Promise<void> {
+    // A flush that is under way would put back the request it is sending
+    await this.flushPromise?.catch(() => undefined);
+    await runRequest((await this.getStore("readwrite")).clear());
+    await this.scheduleRetry();
+  }
+
+  // Sends every request that is due, oldest first. Concurrent calls share the
+  // same run.
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.runFlush().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+
+    return this.flushPromise;
+  }
+
+  private async runFlush(): Promise<void> {
+    for (const request of await this.getAll()) {
+      if (request.createdAt + MAX_REQUEST_AGE < Date.now()) {
+        console.warn("Dropping outbox request that never went through:", request);
+        await this.delete(request.id);
+        continue;
+      }
+
+      if (request.nextAttemptAt > Date.now()) {
+        continue;
+      }
+
+      const offline = await this.send(request);
+
+      if (offline) {
+        break;
+      }
+    }
+
+    await this.scheduleRetry();
+  }
+
+  // Returns true when the server could not be reached, so the rest of the
+  // queue can wait for the next retry
+  private async send(request: OutboxRequest): Promise<boolean> {
+    let failure: string;
+    let offline = false;
+
+    try {
+      const response = await edgeFetch(request.endpoint, {
+        method: request.method,
+        headers: { "Idempotency-Key": request.id },
+        body: request.body,
+      });
+
+      if (response.ok || isPermanentFailure(response.status)) {
+        if (!response.ok) {
+          console.error(`Outbox request rejected with HTTP ${response.status}:`, request);
+        }
+
+        await this.delete(request.id);
+        return false;
+      }
+
+      failure = `HTTP ${response.status}`;
+    } catch (error) {
+      if (error instanceof ReauthenticationRequiredError) {
+        // Nobody is around to verify a passkey when the request is replayed
+        console.error("Outbox request needs re-authentication:", request);
+        await this.delete(request.id);
+        return false;
+      }
+
+      // `fetch` rejects with a TypeError when the network is down
+      offline = error instanceof TypeError;
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    const attempts = request.attempts + 1;
+    await this.put({
+      ...request,
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      lastError: failure,
+    });
+
+    return offline;
+  }
+
+  // Wakes the service worker when the next request is due, and publishes the
+  // queue depth
+  private async scheduleRetry(): Promise<void> {
+    const requests = await this.getAll();
+    await chrome.storage.local.set({ [OUTBOX_DEPTH_KEY]: requests.length });
+
+    if (requests.length === 0) {
+      await chrome.alarms.clear(OUTBOX_RETRY_ALARM);
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...requests.map((request) => request.nextAttemptAt));
+    await chrome.alarms.create(OUTBOX_RETRY_ALARM, {
+      when: Math.max(nextAttemptAt, Date.now() + INITIAL_RETRY_DELAY),
+    });
+  }
+}
+
+export const outbox = new Outbox();
+
+export type { OutboxRequest };
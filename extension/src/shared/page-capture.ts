@@ -0,0 +1,75 @@
+import { edgeDelete, edgeFetchJson } from "./edge-fetch";
+import { sendMessage, type PageCapture } from "./messages";
+
+// Saving the current page to the user's bookmarks (`/api/bookmarks` on the
+// web app), from the popup, the side panel or the context menu, and listing
+// them
+
+export interface BookmarkInput extends PageCapture {
+  notes?: string;
+  tags?: string[];
+}
+
+export interface Bookmark {
+  id: string;
+  url: string;
+  title: string;
+  description: string | null;
+  notes: string | null;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Injecting the content script and extracting a large page can take a while
+const CAPTURE_TIMEOUT = 5000; // 5 seconds
+
+export async function getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return tab;
+}
+
+// Has the background service worker capture the tab, see `background/content-script.ts`
+export function capturePage(tab: chrome.tabs.Tab): Promise<PageCapture> {
+  if (!tab.id) {
+    return Promise.reject(new Error("This tab can't be saved"));
+  }
+
+  return sendMessage("CAPTURE_PAGE", { tabId: tab.id }, { timeout: CAPTURE_TIMEOUT });
+}
+
+// Splits "news, Reading list" into ["news", "reading list"]
+export const parseTags = (value: string) =>
+  value
+    .split(",")
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+
+export async function saveBookmark(input: BookmarkInput): Promise<Bookmark> {
+  const { bookmark } = await edgeFetchJson<{ bookmark: Bookmark }>("/api/bookmarks", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return bookmark;
+}
+
+// Newest first. `url` only matches the exact URL.
+export async function searchBookmarks(filters: { query?: string; url?: string } = {}): Promise<Bookmark[]> {
+  const params = new URLSearchParams();
+  if (filters.query) params.set("q", filters.query);
+  if (filters.url) params.set("url", filters.url);
+
+  const { bookmarks } = await edgeFetchJson<{ bookmarks: Bookmark[] }>(`/api/bookmarks?${params}`);
+  return bookmarks;
+}
+
+export async function deleteBookmark(id: string): Promise<void> {
+  const response = await edgeDelete(`/api/bookmarks/${encodeURIComponent(id)}`);
+
+  // Already gone, e.g. deleted from the web app
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+export type { PageCapture };
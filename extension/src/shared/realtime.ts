@@ -0,0 +1,177 @@
+import { edgeFetchClient, edgeFetchJson } from "./edge-fetch";
+
+// Connection to the worker's `/api/realtime` WebSocket, which pushes events
+// to every signed in context of the user: other tabs, the popup and the
+// background service worker. The connection opens with the first subscriber,
+// closes with the last one, and reconnects with exponential backoff.
+
+// Matches `SESSION_REVOKED_CLOSE_CODE` on the worker
+const SESSION_REVOKED_CLOSE_CODE = 4001;
+// Also keeps the extension's service worker alive while connected
+const HEARTBEAT_INTERVAL = 25 * 1000; // 25 seconds
+const INITIAL_RECONNECT_DELAY = 1000; // 1 second
+const MAX_RECONNECT_DELAY = 5 * 60 * 1000; // 5 minutes
+
+// `current` is true when the event is about this context's own session
+type RealtimeEvent =
+  | { type: "session.revoked"; sessionId: string; current: boolean }
+  | { type: "sync.changed"; sessionId: string; current: boolean }
+  | { type: "user.updated"; user: { id: string; username: string; createdAt: string } };
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+// Extension contexts sign in with bearer tokens, web pages with the cookie
+const isExtension = typeof chrome !== "undefined" && !!chrome.storage;
+
+export class RealtimeClient {
+  private listeners = new Set<RealtimeListener>();
+  private socket: WebSocket | null = null;
+  private connecting = false;
+  private sessionId: string | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  subscribe(listener: RealtimeListener): () => void {
+    this.listeners.add(listener);
+
+    if (this.listeners.size === 1) {
+      this.connect();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+
+      if (this.listeners.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  // Drops the current connection and opens a new one, e.g. after signing in
+  reconnect(): void {
+    this.disconnect();
+
+    if (this.listeners.size > 0) {
+      this.connect();
+    }
+  }
+
+  private async connect(): Promise<void> {
+    if (this.socket || this.reconnectTimer || this.connecting) {
+      return;
+    }
+
+    // Not signed in: wait for `reconnect()`
+    if (isExtension && !edgeFetchClient.isAuthenticated()) {
+      return;
+    }
+
+    this.connecting = true;
+
+    try {
+      const { ticket, sessionId } = await edgeFetchJson<{ ticket: string; sessionId: string }>(
+        "/api/realtime/ticket",
+        { method: "POST" }
+      );
+
+      if (this.listeners.size === 0 || this.socket) {
+        return;
+      }
+
+      const url = new URL("/api/realtime", await edgeFetchClient.getBaseUrl());
+      url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+      url.searchParams.set("ticket", ticket);
+
+      this.sessionId = sessionId;
+      this.openSocket(new WebSocket(url));
+    } catch (error) {
+      console.error("Realtime connection failed:", error);
+      this.scheduleReconnect();
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  private openSocket(socket: WebSocket): void {
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.heartbeatTimer = setInterval(() => socket.send("ping"), HEARTBEAT_INTERVAL);
+    };
+
+    socket.onmessage = (message) => {
+      if (message.data === "pong") {
+        return;
+      }
+
+      try {
+        this.dispatch(JSON.parse(message.data));
+      } catch (error) {
+        console.error("Invalid realtime event:", error);
+      }
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.clearSocket();
+
+      if (event.code !== SESSION_REVOKED_CLOSE_CODE) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private dispatch(event: RealtimeEvent): void {
+    if ("sessionId" in event) {
+      event.current = event.sessionId === this.sessionId;
+    }
+
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private scheduleReconnect(): void {
+    if (this.listeners.size === 0 || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(INITIAL_RECONNECT_DELAY * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+
+    // Up to 20% jitter, so clients dropped together don't reconnect together
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay + Math.random() * delay * 0.2);
+  }
+
+  private clearSocket(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    this.socket = null;
+    this.sessionId = null;
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.clearSocket();
+    socket?.close(1000);
+    this.reconnectAttempts = 0;
+  }
+}
+
+export const realtimeClient = new RealtimeClient();
+
+export type { RealtimeEvent, RealtimeListener };
@@ -0,0 +1,131 @@
+import { edgeFetch } from "./edge-fetch";
+
+// Feature flags, kill switches and the minimum supported version, managed on
+// the worker (`/api/extension/config`). The background service worker fetches
+// them, revalidating with the ETag, and keeps them in `chrome.storage.local`,
+// where every other context reads them. Until the first fetch, and while the
+// worker can't be reached, the last copy (or every feature on) is used.
+
+export type FeatureFlag = "pageCapture" | "activityTracking" | "dataSync" | "pageIndicator";
+
+export interface RemoteConfig {
+  flags: Record<FeatureFlag, boolean>;
+  killSwitches: FeatureFlag[];
+  minVersion: string;
+  refreshAfter: number; // Seconds
+}
+
+interface StoredConfig {
+  config: RemoteConfig;
+  etag: string | null;
+  fetchedAt: number;
+}
+
+// Alarm that wakes the service worker for the next refresh
+export const CONFIG_REFRESH_ALARM = "refresh-config";
+const STORAGE_KEY = "remoteConfig";
+
+export const defaultConfig: RemoteConfig = {
+  flags: { pageCapture: true, activityTracking: true, dataSync: true, pageIndicator: true },
+  killSwitches: [],
+  minVersion: "0.0.0",
+  refreshAfter: 60 * 60,
+};
+
+// Compares dotted versions such as "1.10.0" and "1.9.2" number by number
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) return Math.sign(difference);
+  }
+
+  return 0;
+}
+
+// False when the worker asks this build to update
+export const isSupportedVersion = (config: RemoteConfig) =>
+  compareVersions(chrome.runtime.getManifest().version, config.minVersion) >= 0;
+
+// Builds too old to be supported get every feature turned off
+export const isFeatureEnabled = (config: RemoteConfig, flag: FeatureFlag) =>
+  isSupportedVersion(config) && config.flags[flag] !== false && !config.killSwitches.includes(flag);
+
+export class RemoteConfigClient {
+  private refreshPromise: Promise<RemoteConfig> | null = null;
+
+  private async load(): Promise<StoredConfig | null> {
+    const stored = await chrome.storage.local.get(STORAGE_KEY);
+    return stored[STORAGE_KEY] ?? null;
+  }
+
+  async get(): Promise<RemoteConfig> {
+    const stored = await this.load();
+    // Flags added after the copy was stored keep their default
+    return stored
+      ? { ...defaultConfig, ...stored.config, flags: { ...defaultConfig.flags, ...stored.config.flags } }
+      : defaultConfig;
+  }
+
+  async isEnabled(flag: FeatureFlag): Promise<boolean> {
+    return isFeatureEnabled(await this.get(), flag);
+  }
+
+  // Fetches the latest config, from the background service worker only.
+  // Concurrent calls share the same request.
+  refresh(): Promise<RemoteConfig> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.runRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  private async runRefresh(): Promise<RemoteConfig> {
+    const stored = await this.load();
+
+    try {
+      const response = await edgeFetch("/api/extension/config", {
+        headers: stored?.etag ? { "If-None-Match": stored.etag } : {},
+      });
+
+      if (response.status === 304 && stored) {
+        await chrome.storage.local.set({ [STORAGE_KEY]: { ...stored, fetchedAt: Date.now() } });
+      } else if (response.ok) {
+        await chrome.storage.local.set({
+          [STORAGE_KEY]: {
+            config: await response.json(),
+            etag: response.headers.get("ETag"),
+            fetchedAt: Date.now(),
+          } satisfies StoredConfig,
+        });
+      } else {
+        console.error(`Config refresh failed with HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Config refresh failed:", error);
+    }
+
+    const config = await this.get();
+    await chrome.alarms.create(CONFIG_REFRESH_ALARM, { delayInMinutes: Math.max(config.refreshAfter / 60, 1) });
+    return config;
+  }
+
+  // Called with the new config whenever the background stores one
+  subscribe(listener: (config: RemoteConfig) => void): () => void {
+    const onChanged = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === "local" && changes[STORAGE_KEY]) {
+        this.get().then(listener, (error) => console.error("Failed to load config:", error));
+      }
+    };
+
+    chrome.storage.onChanged.addListener(onChanged);
+    return () => chrome.storage.onChanged.removeListener(onChanged);
+  }
+}
+
+export const remoteConfig = new RemoteConfigClient();
@@ -0,0 +1,241 @@
+import { edgeFetch, edgeFetchJson } from "./edge-fetch";
+import { MAX_RESTORED_RECORDS, sendMessage } from "./messages";
+import { OUTBOX_DEPTH_KEY } from "./outbox";
+import {
+  defaultSettings,
+  migrateSettings,
+  SETTINGS_VERSION,
+  settings,
+  validateSettings,
+  type ExtensionSettings,
+} from "./settings";
+import { siteAccess } from "./site-access";
+import { syncClient, type SyncData } from "./sync";
+
+// Export, import and reset of what the user set up in the extension: the
+// settings, the sites allowed in the options and the synced records. Tokens,
+// queued requests and caches never go into a backup. Backups are JSON files,
+// or kept on the user's account through `/api/extension/backup`.
+
+export const BACKUP_FORMAT = "rwsdk-extension-backup";
+// The layout of the file. Settings have their own `settingsVersion`.
+const BACKUP_VERSION = 1;
+
+// Left alone by a reset: the session, install details and the count of
+// requests still queued in the outbox
+const KEPT_LOCAL_KEYS = ["tokenData", "extensionVersion", "installDate", OUTBOX_DEPTH_KEY];
+
+export interface BackupRecord {
+  collection: string;
+  key: string;
+  data: SyncData;
+}
+
+export interface SettingsBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  settingsVersion: number;
+  settings: Partial<ExtensionSettings>;
+  sites: string[];
+  records: BackupRecord[];
+}
+
+// What importing a backup would change. Importing only adds sites and
+// records; the ones missing from the backup are kept.
+export interface BackupDiff {
+  settings: { key: keyof ExtensionSettings; current: unknown; imported: unknown }[];
+  addedSites: string[];
+  addedRecords: BackupRecord[];
+  changedRecords: BackupRecord[];
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isEmptyDiff = (diff: BackupDiff) =>
+  diff.settings.length + diff.addedSites.length + diff.addedRecords.length + diff.changedRecords.length === 0;
+
+const recordId = ({ collection, key }: { collection: string; key: string }) => `${collection}/${key}`;
+
+export async function createBackup(): Promise<SettingsBackup> {
+  const [current, sites, records] = await Promise.all([settings.get(), siteAccess.list(), syncClient.listAll()]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    settingsVersion: SETTINGS_VERSION,
+    settings: current,
+    sites,
+    records,
+  };
+}
+
+// Checks a parsed backup file and migrates its settings to the current
+// version. Throws a `BackupError` describing the first problem found.
+export function parseBackup(value: unknown): SettingsBackup {
+  if (!isObject(value) || value.format !== BACKUP_FORMAT) {
+    throw new BackupError("This is not a backup of the extension's settings");
+  }
+
+  const { version, settingsVersion, sites, records } = value;
+
+  if (!Number.isInteger(version) || !Number.isInteger(settingsVersion) || !isObject(value.settings)) {
+    throw new BackupError("The backup is incomplete");
+  }
+
+  if ((version as number) > BACKUP_VERSION || (settingsVersion as number) > SETTINGS_VERSION) {
+    throw new BackupError("The backup comes from a newer version of the extension. Update it first.");
+  }
+
+  // Settings this version doesn't know about are left out
+  const migrated = migrateSettings(value.settings, settingsVersion as number);
+  const imported = Object.fromEntries(
+    Object.entries(migrated).filter(([key]) => key in defaultSettings)
+  ) as Partial<ExtensionSettings>;
+  const errors = Object.entries(validateSettings(imported));
+
+  if (errors.length > 0) {
+    throw new BackupError(`Invalid settings: ${errors.map(([key, error]) => `${key}: ${error}`).join(", ")}`);
+  }
+
+  const isOrigin = (site: unknown) => typeof site === "string" && siteAccess.toOriginPattern(site) === site;
+
+  if (!Array.isArray(sites) || !sites.every(isOrigin)) {
+    throw new BackupError("sites must be a list of origins like https://example.com/*");
+  }
+
+  if (!Array.isArray(records) || records.length > MAX_RESTORED_RECORDS) {
+    throw new BackupError(`records must be a list of at most ${MAX_RESTORED_RECORDS} records`);
+  }
+
+  for (const record of records) {
+    const valid =
+      isObject(record) && typeof record.collection === "string" && typeof record.key === "string" && isObject(record.data);
+
+    if (!valid) {
+      throw new BackupError("Each record needs a collection, key and data");
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: typeof value.exportedAt === "string" ? value.exportedAt : "",
+    settingsVersion: SETTINGS_VERSION,
+    settings: imported,
+    sites,
+    records: records as BackupRecord[],
+  };
+}
+
+export async function diffBackup(backup: SettingsBackup): Promise<BackupDiff> {
+  const [current, sites, records] = await Promise.all([settings.get(), siteAccess.list(), syncClient.listAll()]);
+  const currentRecords = new Map(records.map((record) => [recordId(record), record.data]));
+
+  const diff: BackupDiff = {
+    settings: [],
+    addedSites: backup.sites.filter((site) => !sites.includes(site)),
+    addedRecords: [],
+    changedRecords: [],
+  };
+
+  for (const [key, imported] of Object.entries(backup.settings) as [keyof ExtensionSettings, unknown][]) {
+    if (current[key] !== imported) {
+      diff.settings.push({ key, current: current[key], imported });
+    }
+  }
+
+  for (const record of backup.records) {
+    const data = currentRecords.get(recordId(record));
+
+    if (!data) {
+      diff.addedRecords.push(record);
+    } else if (
+      Object.entries(record.data).some(([field, value]) => JSON.stringify(data[field]) !== JSON.stringify(value))
+    ) {
+      diff.changedRecords.push(record);
+    }
+  }
+
+  return diff;
+}
+
+// Call it straight from a click handler: Chrome only shows the prompt for
+// the backup's sites and edge API URL for a user gesture. Settings and records
+// are applied even if the user denies access.
+export async function applyBackup(backup: SettingsBackup, diff: BackupDiff): Promise<void> {
+  if (isEmptyDiff(diff)) {
+    return;
+  }
+
+  const apiOrigin = backup.settings.edgeApiUrl && siteAccess.toOriginPattern(backup.settings.edgeApiUrl);
+  const origins = [...diff.addedSites, ...(apiOrigin ? [apiOrigin] : [])];
+
+  if (diff.addedSites.length > 0 || diff.settings.some(({ key }) => key === "edgeApiUrl")) {
+    await chrome.permissions.request({ origins });
+  }
+
+  await settings.update(backup.settings);
+
+  // The background service worker owns the sync state
+  const restored = [...diff.addedRecords, ...diff.changedRecords];
+
+  if (restored.length > 0) {
+    await sendMessage("RESTORE_RECORDS", {
+      records: restored.map(({ collection, key, data }) => ({ collection, key, fields: data })),
+    });
+  }
+}
+
+// Puts the settings back to their defaults, removes every allowed site and
+// clears what the extension keeps in `chrome.storage.local`, except the
+// session. The background fetches the remote config and synced records again.
+// Changes that weren't synced yet are lost.
+export async function resetExtension(): Promise<void> {
+  const sites = await siteAccess.list();
+
+  if (sites.length > 0) {
+    await chrome.permissions.remove({ origins: sites });
+  }
+
+  await settings.reset();
+
+  const stored = await chrome.storage.local.get(null);
+  const keys = Object.keys(stored).filter((key) => !KEPT_LOCAL_KEYS.includes(key));
+
+  if (keys.length > 0) {
+    await chrome.storage.local.remove(keys);
+  }
+}
+
+export async function uploadBackup(): Promise<{ updatedAt: string }> {
+  return edgeFetchJson<{ updatedAt: string }>("/api/extension/backup", {
+    method: "PUT",
+    body: JSON.stringify({ backup: await createBackup() }),
+  });
+}
+
+// Resolves to null when the account has no backup yet
+export async function downloadBackup(): Promise<{ backup: SettingsBackup; updatedAt: string } | null> {
+  const response = await edgeFetch("/api/extension/backup");
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const { backup, updatedAt } = await response.json();
+  return { backup: parseBackup(backup), updatedAt };
+}
@@ -0,0 +1,172 @@
+// The options the user sets on the options page, kept in `chrome.storage.sync`
+// so they follow the user across browsers. Each setting is stored under its own
+// key, next to `settingsVersion`. Stored values are migrated to the current
+// version on first read, and anything that still doesn't validate falls back
+// to its default.
+
+export interface ExtensionSettings {
+  edgeApiUrl: string;
+  enableTracking: boolean;
+  syncInterval: number; // Minutes
+  debugMode: boolean;
+}
+
+export type SettingsErrors = Partial<Record<keyof ExtensionSettings, string>>;
+type SettingsListener = (settings: ExtensionSettings, changed: (keyof ExtensionSettings)[]) => void;
+
+export const SETTINGS_VERSION = 2;
+const VERSION_KEY = "settingsVersion";
+
+export const MIN_SYNC_INTERVAL = 5;
+export const MAX_SYNC_INTERVAL = 24 * 60; // 1 day
+
+export const defaultSettings: ExtensionSettings = {
+  edgeApiUrl: "http://localhost:8787",
+  enableTracking: true,
+  syncInterval: 30,
+  debugMode: false,
+};
+
+const settingKeys = Object.keys(defaultSettings) as (keyof ExtensionSettings)[];
+
+// Return a description of what is wrong with the value, or null
+const validators: { [K in keyof ExtensionSettings]: (value: unknown) => string | null } = {
+  edgeApiUrl: (value) => {
+    if (typeof value !== "string" || !URL.canParse(value)) return "Enter a URL";
+    const { protocol, pathname } = new URL(value);
+    if (protocol !== "http:" && protocol !== "https:") return "Use an http:// or https:// URL";
+    return pathname === "/" && !value.endsWith("/") ? null : "Enter the URL without a path, e.g. https://example.com";
+  },
+  enableTracking: (value) => (typeof value === "boolean" ? null : "Expected true or false"),
+  syncInterval: (value) =>
+    Number.isInteger(value) && (value as number) >= MIN_SYNC_INTERVAL && (value as number) <= MAX_SYNC_INTERVAL
+      ? null
+      : `Enter a number of minutes between ${MIN_SYNC_INTERVAL} and ${MAX_SYNC_INTERVAL}`,
+  debugMode: (value) => (typeof value === "boolean" ? null : "Expected true or false"),
+};
+
+export function validateSettings(values: Partial<ExtensionSettings>): SettingsErrors {
+  const errors: SettingsErrors = {};
+
+  for (const key of settingKeys) {
+    const error = key in values ? validators[key](values[key]) : null;
+    if (error) errors[key] = error;
+  }
+
+  return errors;
+}
+
+// Upgrades settings stored by an older version, one version at a time. Keyed
+// by the version they upgrade from; version 1 stored no `settingsVersion`.
+const migrations: Record<number, (stored: Record<string, unknown>) => Record<string, unknown>> = {
+  1: ({ syncInterval, edgeApiUrl, ...stored }) => ({
+    ...stored,
+    // The options page stored NaN (read back as null) for an emptied field
+    ...(syncInterval != null && {
+      syncInterval: Math.min(Math.max(Math.round(Number(syncInterval)) || 30, MIN_SYNC_INTERVAL), MAX_SYNC_INTERVAL),
+    }),
+    // Endpoints are appended to the URL, so "https://example.com/" led to "//api/..."
+    ...(typeof edgeApiUrl === "string" && { edgeApiUrl: edgeApiUrl.replace(/\/+$/, "") }),
+  }),
+};
+
+// Brings settings stored or exported by an older version up to date
+export function migrateSettings(values: Record<string, unknown>, fromVersion: number): Record<string, unknown> {
+  let migrated = values;
+
+  for (let version = fromVersion; version < SETTINGS_VERSION; version++) {
+    migrated = migrations[version]?.(migrated) ?? migrated;
+  }
+
+  return migrated;
+}
+
+export class SettingsValidationError extends Error {
+  constructor(public errors: SettingsErrors) {
+    super(Object.values(errors).join(". "));
+    this.name = "SettingsValidationError";
+  }
+}
+
+export class SettingsService {
+  private migration: Promise<void> | null = null;
+
+  private async migrate(): Promise<void> {
+    const stored = await chrome.storage.sync.get([VERSION_KEY, ...settingKeys]);
+    const version: number = stored[VERSION_KEY] ?? 1;
+
+    if (version >= SETTINGS_VERSION) {
+      return;
+    }
+
+    const { [VERSION_KEY]: _, ...values } = stored;
+    await chrome.storage.sync.set({ ...migrateSettings(values, version), [VERSION_KEY]: SETTINGS_VERSION });
+  }
+
+  // Runs once per context
+  private ensureMigrated(): Promise<void> {
+    this.migration ??= this.migrate().catch((error) => {
+      this.migration = null;
+      throw error;
+    });
+    return this.migration;
+  }
+
+  async get(): Promise<ExtensionSettings> {
+    await this.ensureMigrated();
+    return this.parse(await chrome.storage.sync.get(settingKeys));
+  }
+
+  // Validates all the changes before storing any. Throws a
+  // `SettingsValidationError` with a message per invalid setting.
+  async update(changes: Partial<ExtensionSettings>): Promise<ExtensionSettings> {
+    const errors = validateSettings(changes);
+
+    if (Object.keys(errors).length > 0) {
+      throw new SettingsValidationError(errors);
+    }
+
+    await this.ensureMigrated();
+    await chrome.storage.sync.set(changes);
+    return this.get();
+  }
+
+  async reset(): Promise<ExtensionSettings> {
+    await chrome.storage.sync.set({ ...defaultSettings, [VERSION_KEY]: SETTINGS_VERSION });
+    return { ...defaultSettings };
+  }
+
+  // Called with the new settings whenever any of them changes, in any context
+  subscribe(listener: SettingsListener): () => void {
+    const onChanged = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      const changed = settingKeys.filter((key) => key in changes);
+
+      if (areaName === "sync" && changed.length > 0) {
+        this.get().then(
+          (settings) => listener(settings, changed),
+          (error) => console.error("Failed to load settings:", error)
+        );
+      }
+    };
+
+    chrome.storage.onChanged.addListener(onChanged);
+    return () => chrome.storage.onChanged.removeListener(onChanged);
+  }
+
+  // Unset or invalid values fall back to their defaults
+  private parse(stored: Record<string, unknown>): ExtensionSettings {
+    const settings = { ...defaultSettings };
+
+    for (const key of settingKeys) {
+      if (stored[key] !== undefined && !validators[key](stored[key])) {
+        (settings as Record<string, unknown>)[key] = stored[key];
+      }
+    }
+
+    return settings;
+  }
+}
+
+export const settings = new SettingsService();
+
+export type { SettingsListener };
@@ -0,0 +1,43 @@
+import { settings } from "./settings";
+
+// Sites the content script runs on by itself, managed in the options page.
+// They are requested as optional host permissions, so Chrome shows them in
+// the extension's site access settings too.
+
+export class SiteAccess {
+  // "https://example.com/path" -> "https://example.com/*"
+  toOriginPattern(url: string): string | null {
+    try {
+      const { protocol, host } = new URL(url);
+      return protocol === "http:" || protocol === "https:" ? `${protocol}//${host}/*` : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Without the API hosts: the ones the manifest always grants, and the
+  // configured edge API URL (see `shared/api-access.ts`)
+  async list(): Promise<string[]> {
+    const { origins = [] } = await chrome.permissions.getAll();
+    const { edgeApiUrl } = await settings.get();
+    const apiOrigins = [...(chrome.runtime.getManifest().host_permissions ?? []), this.toOriginPattern(edgeApiUrl)];
+    return origins.filter((origin) => !apiOrigins.includes(origin)).sort();
+  }
+
+  // Must be called from a user gesture in an extension page
+  async grant(url: string): Promise<boolean> {
+    const origin = this.toOriginPattern(url);
+    return !!origin && chrome.permissions.request({ origins: [origin] });
+  }
+
+  async revoke(origin: string): Promise<boolean> {
+    return chrome.permissions.remove({ origins: [origin] });
+  }
+
+  async isGranted(url: string): Promise<boolean> {
+    const origin = this.toOriginPattern(url);
+    return !!origin && (await this.list()).includes(origin);
+  }
+}
+
+export const siteAccess = new SiteAccess();
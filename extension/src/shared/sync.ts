@@ -0,0 +1,278 @@
+import { edgeFetchClient, edgeFetchJson } from "./edge-fetch";
+
+// Client for the worker's `/api/extension/sync` protocol. Records are small
+// JSON objects addressed by collection and key. Local edits are applied right
+// away and queued as pending changes (one per record, coalesced), then
+// `sync()` pushes them with the last cursor and pulls every record that
+// changed on the server since. The server merges concurrent edits field by
+// field, so the pulled copy always wins locally, except for fields edited
+// while the request was in flight.
+
+// Matches `MAX_SYNC_BATCH_SIZE` on the worker
+const MAX_PUSH_SIZE = 100;
+// Stops a sync that keeps finding new pending changes from looping forever
+const MAX_SYNC_ROUNDS = 20;
+const STORAGE_KEY = "syncState";
+// When the last sync succeeded, and why the last one failed, for the popup
+const STATUS_KEY = "syncStatus";
+
+type SyncData = Record<string, unknown>;
+
+interface SyncRecord {
+  collection: string;
+  key: string;
+  revision: number;
+  deleted: boolean;
+  data: SyncData | null;
+  updatedAt: string;
+}
+
+interface PendingChange {
+  collection: string;
+  key: string;
+  baseRevision: number | null;
+  fields?: SyncData;
+  deleted?: boolean;
+  changedAt: string;
+}
+
+interface SyncConflict {
+  collection: string;
+  key: string;
+  field: string;
+  winner: "client" | "server";
+}
+
+interface SyncState {
+  cursor: number;
+  records: Record<string, SyncRecord>;
+  pending: Record<string, PendingChange>;
+}
+
+interface SyncResponse {
+  cursor: number;
+  hasMore: boolean;
+  records: SyncRecord[];
+  conflicts: SyncConflict[];
+}
+
+interface SyncStatus {
+  lastSyncedAt: string | null;
+  // Cleared by the next sync that succeeds
+  lastError: string | null;
+}
+
+interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: SyncConflict[];
+}
+
+const recordId = (collection: string, key: string) => `${collection}/${key}`;
+
+export class SyncClient {
+  private syncPromise: Promise<SyncResult> | null = null;
+
+  private async loadState(): Promise<SyncState> {
+    const stored = await chrome.storage.local.get(STORAGE_KEY);
+    return stored[STORAGE_KEY] ?? { cursor: 0, records: {}, pending: {} };
+  }
+
+  private async saveState(state: SyncState): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY]: state });
+  }
+
+  private async saveStatus(status: Partial<SyncStatus>): Promise<void> {
+    await chrome.storage.local.set({ [STATUS_KEY]: { ...(await this.getStatus()), ...status } });
+  }
+
+  // Applies a local edit and queues it for the next sync
+  private async queueChange(
+    collection: string,
+    key: string,
+    change: { fields?: SyncData; deleted?: boolean }
+  ): Promise<void> {
+    const state = await this.loadState();
+    const id = recordId(collection, key);
+    const record = state.records[id];
+    const previous = state.pending[id];
+
+    state.records[id] = {
+      collection,
+      key,
+      revision: record?.revision ?? 0,
+      deleted: !!change.deleted,
+      data: change.deleted
+        ? null
+        : { ...(record?.deleted ? {} : record?.data), ...change.fields },
+      updatedAt: new Date().toISOString(),
+    };
+
+    state.pending[id] = {
+      collection,
+      key,
+      baseRevision: previous?.baseRevision ?? record?.revision ?? null,
+      ...(change.deleted
+        ? { deleted: true }
+        : {
+            // A record set again after a pending delete starts over
+            fields: { ...(previous?.deleted ? {} : previous?.fields), ...change.fields },
+          }),
+      changedAt: new Date().toISOString(),
+    };
+
+    await this.saveState(state);
+  }
+
+  // Sets the given fields of a record, creating it if needed
+  async set(collection: string, key: string, fields: SyncData): Promise<void> {
+    await this.queueChange(collection, key, { fields });
+  }
+
+  async remove(collection: string, key: string): Promise<void> {
+    await this.queueChange(collection, key, { deleted: true });
+  }
+
+  async get<T extends SyncData = SyncData>(collection: string, key: string): Promise<T | null> {
+    const state = await this.loadState();
+    const record = state.records[recordId(collection, key)];
+    return record && !record.deleted ? (record.data as T) : null;
+  }
+
+  async list<T extends SyncData = SyncData>(collection: string): Promise<{ key: string; data: T }[]> {
+    const state = await this.loadState();
+    return Object.values(state.records)
+      .filter((record) => record.collection === collection && !record.deleted)
+      .map((record) => ({ key: record.key, data: record.data as T }));
+  }
+
+  // Every record, for settings backups
+  async listAll(): Promise<{ collection: string; key: string; data: SyncData }[]> {
+    const state = await this.loadState();
+    return Object.values(state.records)
+      .filter((record) => !record.deleted)
+      .map(({ collection, key, data }) => ({ collection, key, data: data! }));
+  }
+
+  // The most recently changed records, newest first
+  async listRecent(limit: number): Promise<(Omit<SyncRecord, "revision" | "deleted"> & { data: SyncData })[]> {
+    const state = await this.loadState();
+    return Object.values(state.records)
+      .filter((record) => !record.deleted)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit)
+      .map(({ collection, key, data, updatedAt }) => ({ collection, key, data: data!, updatedAt }));
+  }
+
+  async getPendingCount(): Promise<number> {
+    const state = await this.loadState();
+    return Object.keys(state.pending).length;
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    const stored = await chrome.storage.local.get(STATUS_KEY);
+    return stored[STATUS_KEY] ?? { lastSyncedAt: null, lastError: null };
+  }
+
+  // Called whenever the records, pending changes or status change, in any context
+  subscribe(listener: () => void): () => void {
+    const onChanged = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === "local" && (changes[STORAGE_KEY] || changes[STATUS_KEY])) {
+        listener();
+      }
+    };
+
+    chrome.storage.onChanged.addListener(onChanged);
+    return () => chrome.storage.onChanged.removeListener(onChanged);
+  }
+
+  // Pushes pending changes and pulls remote ones. Concurrent calls share the
+  // same run.
+  sync(): Promise<SyncResult> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+
+    return this.syncPromise;
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const result: SyncResult = { pushed: 0, pulled: 0, conflicts: [] };
+
+    if (!edgeFetchClient.isAuthenticated()) {
+      return result;
+    }
+
+    try {
+      await this.syncRounds(result);
+    } catch (error) {
+      await this.saveStatus({ lastError: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+
+    await this.saveStatus({ lastSyncedAt: new Date().toISOString(), lastError: null });
+
+    if (result.conflicts.length > 0) {
+      console.info("Sync resolved conflicts:", result.conflicts);
+    }
+
+    return result;
+  }
+
+  private async syncRounds(result: SyncResult): Promise<void> {
+    for (let round = 0; round < MAX_SYNC_ROUNDS; round++) {
+      const { cursor, pending } = await this.loadState();
+      const batch = Object.entries(pending).slice(0, MAX_PUSH_SIZE);
+
+      const response = await edgeFetchJson<SyncResponse>("/api/extension/sync", {
+        method: "POST",
+        body: JSON.stringify({ cursor, changes: batch.map(([, change]) => change) }),
+      });
+
+      // Local edits may have happened while the request was in flight
+      const state = await this.loadState();
+
+      for (const [id, change] of batch) {
+        if (state.pending[id]?.changedAt === change.changedAt) {
+          delete state.pending[id];
+        }
+      }
+
+      for (const record of response.records) {
+        const id = recordId(record.collection, record.key);
+        const stillPending = state.pending[id];
+
+        if (stillPending) {
+          // Keep the newer local edit on top of the merged record
+          stillPending.baseRevision = record.revision;
+          state.records[id] = {
+            ...record,
+            deleted: !!stillPending.deleted,
+            data: stillPending.deleted
+              ? null
+              : { ...(record.deleted ? {} : record.data), ...stillPending.fields },
+          };
+        } else {
+          state.records[id] = record;
+        }
+      }
+
+      state.cursor = response.cursor;
+      await this.saveState(state);
+
+      result.pushed += batch.length;
+      result.pulled += response.records.length;
+      result.conflicts.push(...response.conflicts);
+
+      if (!response.hasMore && Object.keys(state.pending).length === 0) {
+        break;
+      }
+    }
+  }
+}
+
+export const syncClient = new SyncClient();
+
+export type { PendingChange, SyncConflict, SyncData, SyncRecord, SyncResult, SyncStatus };
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { getActiveTab } from "./page-capture";
+
+// The active tab of the window this page is in, kept up to date as the user
+// switches tabs or the tab navigates. Null until it is known, or when the
+// window has no tab.
+export function useActiveTab(): chrome.tabs.Tab | null {
+  const [tab, setTab] = useState<chrome.tabs.Tab | null>(null);
+
+  useEffect(() => {
+    let windowId: number | null = null;
+
+    getActiveTab()
+      .then((activeTab) => {
+        windowId = activeTab?.windowId ?? null;
+        setTab(activeTab ?? null);
+      })
+      .catch((error) => console.error("Failed to load the active tab:", error));
+
+    const handleActivated = ({ tabId, windowId: activatedWindowId }: chrome.tabs.TabActiveInfo) => {
+      if (activatedWindowId === windowId) {
+        chrome.tabs
+          .get(tabId)
+          .then(setTab)
+          .catch((error) => console.error("Failed to load the active tab:", error));
+      }
+    };
+
+    const handleUpdated = (_tabId: number, changeInfo: chrome.tabs.TabChangeInfo, updated: chrome.tabs.Tab) => {
+      if (updated.active && updated.windowId === windowId && (changeInfo.url || changeInfo.title)) {
+        setTab(updated);
+      }
+    };
+
+    chrome.tabs.onActivated.addListener(handleActivated);
+    chrome.tabs.onUpdated.addListener(handleUpdated);
+
+    return () => {
+      chrome.tabs.onActivated.removeListener(handleActivated);
+      chrome.tabs.onUpdated.removeListener(handleUpdated);
+    };
+  }, []);
+
+  return tab;
+}
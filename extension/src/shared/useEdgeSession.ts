@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
-import { edgeFetch, edgeFetchJson } from "./edge-fetch";
+import { edgeFetch, edgeFetchJson, edgeLogout } from "./edge-fetch";
+import { realtimeClient, type RealtimeListener } from "./realtime";
+import { subscribe } from "./messages";
 
 interface User {
   id: string;
@@ -26,6 +28,11 @@ interface UseEdgeSessionReturn extends EdgeSession {
 const isExtension = typeof chrome !== "undefined" && chrome.storage;
 const isWeb = typeof window !== "undefined" && !isExtension;
 
+// Extension pages get realtime events relayed by the background service
+// worker instead of opening their own connection
+const subscribeToRealtime = (listener: RealtimeListener) =>
+  isExtension ? subscribe("REALTIME_EVENTS", listener) : realtimeClient.subscribe(listener);
+
 // Storage abstraction for cross-platform compatibility
 class SessionStorage {
   async get(key: string): Promise<any> {
@@ -152,11 +159,14 @@ export function useEdgeSession(): UseEdgeSessionReturn {
       setSession(prev => ({ ...prev, isLoading: true, error: null }));
 
       if (isExtension) {
-        // Extension-specific login: open web app login page
+        // Extension-specific login: sign in on the web app, which hands a
+        // one-time code to the background to exchange for tokens
         const edgeUrl = process.env.VITE_EDGE_API_URL || "http://localhost:8787";
-        chrome.tabs.create({ url: `${edgeUrl}/login` });
+        chrome.tabs.create({
+          url: `${edgeUrl}/auth/extension?extensionId=${encodeURIComponent(chrome.runtime.id)}`,
+        });
         
-        // Listen for successful login from web app
+        // Listen for the session stored by the background after the handoff
         const cleanup = sessionStorage.onChange((changes) => {
           if (changes.edgeSession?.isAuthenticated) {
             setSession(changes.edgeSession);
@@ -203,7 +213,7 @@ export function useEdgeSession(): UseEdgeSessionReturn {
       setSession(prev => ({ ...prev, isLoading: true }));
       
       // Call server logout endpoint
-      await edgeFetch("/api/auth/logout", { method: "POST" });
+      await edgeLogout();
       
       // Clear local session
       await clearSession();
@@ -238,6 +248,24 @@ export function useEdgeSession(): UseEdgeSessionReturn {
     loadSession();
   }, [loadSession]);
 
+  // Follow pushed changes while signed in: being signed out from another
+  // device, or the profile changing elsewhere
+  useEffect(() => {
+    if (!session.isAuthenticated) return;
+
+    return subscribeToRealtime((event) => {
+      if (event.type === "session.revoked" && event.current) {
+        clearSession();
+      } else if (event.type === "user.updated") {
+        setSession(prev => {
+          const newSession = { ...prev, user: { ...prev.user, ...event.user } };
+          sessionStorage.set("edgeSession", newSession);
+          return newSession;
+        });
+      }
+    });
+  }, [session.isAuthenticated, clearSession]);
+
   // Listen for session changes across tabs/contexts
   useEffect(() => {
     const cleanup = sessionStorage.onChange((changes) => {
@@ -249,21 +277,6 @@ export function useEdgeSession(): UseEdgeSessionReturn {
     return cleanup;
   }, []);
 
-  // Extension-specific: Listen for tab updates to detect login completion
-  useEffect(() => {
-    if (isExtension && !session.isAuthenticated) {
-      const handleTabUpdate = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
-        if (changeInfo.status === "complete" && changeInfo.url?.includes("/login-success")) {
-          // Login completed, refresh session
-          loadSession();
-        }
-      };
-
-      chrome.tabs?.onUpdated?.addListener(handleTabUpdate);
-      return () => chrome.tabs?.onUpdated?.removeListener(handleTabUpdate);
-    }
-  }, [session.isAuthenticated, loadSession]);
-
   return {
     user: session.user,
     isAuthenticated: session.isAuthenticated,
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import {
+  defaultConfig,
+  isFeatureEnabled,
+  isSupportedVersion,
+  remoteConfig,
+  type FeatureFlag,
+  type RemoteConfig,
+} from "./remote-config";
+
+interface UseRemoteConfigReturn {
+  config: RemoteConfig;
+  isEnabled: (flag: FeatureFlag) => boolean;
+  // The worker no longer supports this build, see `minVersion`
+  updateRequired: boolean;
+}
+
+// The config last fetched by the background service worker, kept up to date
+// while the component is mounted
+export function useRemoteConfig(): UseRemoteConfigReturn {
+  const [config, setConfig] = useState<RemoteConfig>(defaultConfig);
+
+  useEffect(() => {
+    remoteConfig
+      .get()
+      .then(setConfig)
+      .catch((error) => console.error("Failed to load config:", error));
+
+    return remoteConfig.subscribe(setConfig);
+  }, []);
+
+  return {
+    config,
+    isEnabled: (flag) => isFeatureEnabled(config, flag),
+    updateRequired: !isSupportedVersion(config),
+  };
+}
@@ -0,0 +1,38 @@
+import React from "react";
+import { settings } from "../shared/settings";
+
+interface AccountProps {
+  user: { name?: string; email?: string } | null;
+  onLogout: () => void;
+}
+
+export const Account: React.FC<AccountProps> = ({ user, onLogout }) => {
+  const handleOpenApp = async () => {
+    try {
+      const { edgeApiUrl } = await settings.get();
+      await chrome.tabs.create({ url: edgeApiUrl });
+    } catch (error) {
+      console.error("Failed to open the web app:", error);
+    }
+  };
+
+  return (
+    <div className="account">
+      <div className="user-info">
+        {user?.name && <p className="account-name">{user.name}</p>}
+        {user?.email && <p className="user-email">{user.email}</p>}
+      </div>
+      <div className="account-actions">
+        <button onClick={handleOpenApp} className="btn btn-link">
+          Open web app
+        </button>
+        <button onClick={() => chrome.runtime.openOptionsPage()} className="btn btn-link">
+          Settings
+        </button>
+        <button onClick={onLogout} className="btn btn-secondary">
+          Logout
+        </button>
+      </div>
+    </div>
+  );
+};
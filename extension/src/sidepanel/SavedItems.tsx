@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { deleteBookmark, searchBookmarks, type Bookmark } from "../shared/page-capture";
+import { useRemoteConfig } from "../shared/useRemoteConfig";
+import { SavePage } from "../popup/SavePage";
+
+interface SavedItemsProps {
+  activeTab: chrome.tabs.Tab | null;
+}
+
+// The user's bookmarks, searchable. Offers to save the page in the active tab
+// until it is saved, and marks its bookmark in the list.
+export const SavedItems: React.FC<SavedItemsProps> = ({ activeTab }) => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [query, setQuery] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Null until known, and for pages that can't be saved
+  const [currentSaved, setCurrentSaved] = useState<boolean | null>(null);
+  const { isEnabled } = useRemoteConfig();
+  const currentUrl = activeTab?.url;
+
+  const loadBookmarks = useCallback(async (search: string) => {
+    setLoading(true);
+    try {
+      setBookmarks(await searchBookmarks({ query: search.trim() || undefined }));
+      setError(null);
+    } catch (error) {
+      console.error("Failed to load bookmarks:", error);
+      setError("Could not load your saved pages");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBookmarks("");
+  }, [loadBookmarks]);
+
+  // Looked up on its own, as the list only holds the newest matches
+  useEffect(() => {
+    setCurrentSaved(null);
+
+    if (!currentUrl || !/^https?:\/\//.test(currentUrl)) {
+      return;
+    }
+
+    let cancelled = false;
+
+    searchBookmarks({ url: currentUrl }).then(
+      (found) => !cancelled && setCurrentSaved(found.length > 0),
+      (error) => console.error("Failed to look up bookmark:", error)
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUrl]);
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    loadBookmarks(query);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteBookmark(id);
+      setBookmarks((prev) => prev.filter((bookmark) => bookmark.id !== id));
+
+      if (bookmarks.some((bookmark) => bookmark.id === id && bookmark.url === currentUrl)) {
+        setCurrentSaved(false);
+      }
+    } catch (error) {
+      console.error("Failed to delete bookmark:", error);
+      setError("Could not delete that page");
+    }
+  };
+
+  const handleSaved = (bookmark: Bookmark) => {
+    setBookmarks((prev) => [bookmark, ...prev.filter((other) => other.id !== bookmark.id)]);
+
+    if (bookmark.url === currentUrl) {
+      setCurrentSaved(true);
+    }
+  };
+
+  return (
+    <div className="saved-items">
+      {activeTab && currentSaved === false && isEnabled("pageCapture") && (
+        // Starts over when the user switches tabs
+        <SavePage key={`${activeTab.id}:${currentUrl}`} onSaved={handleSaved} />
+      )}
+
+      <form className="saved-search" onSubmit={handleSearch}>
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search saved pages"
+          aria-label="Search saved pages"
+        />
+      </form>
+
+      {error && <p className="saved-error">{error}</p>}
+
+      {loading ? (
+        <div className="loading">Loading...</div>
+      ) : bookmarks.length > 0 ? (
+        <ul className="saved-list">
+          {bookmarks.map((bookmark) => (
+            <li
+              key={bookmark.id}
+              className={`saved-item ${bookmark.url === currentUrl ? "saved-item-current" : ""}`}
+            >
+              <div>
+                <a href={bookmark.url} target="_blank" rel="noreferrer" className="saved-title">
+                  {bookmark.title}
+                </a>
+                <span className="saved-meta">
+                  {bookmark.url === currentUrl ? "This page · " : ""}
+                  {new URL(bookmark.url).host}
+                  {bookmark.tags.length > 0 && ` · ${bookmark.tags.join(", ")}`}
+                </span>
+              </div>
+              <button onClick={() => handleDelete(bookmark.id)} className="btn btn-link">
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="saved-empty">{query.trim() ? "No saved pages match" : "No saved pages yet"}</p>
+      )}
+    </div>
+  );
+};
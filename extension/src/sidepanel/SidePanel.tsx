@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from "react";
+import { useActiveTab } from "../shared/useActiveTab";
+import { useEdgeSession } from "../shared/useEdgeSession";
+import { useRemoteConfig } from "../shared/useRemoteConfig";
+import { SessionList } from "../popup/SessionList";
+import { Account } from "./Account";
+import { SavedItems } from "./SavedItems";
+
+type Route = "saved" | "account" | "sessions";
+
+const routes: { id: Route; label: string }[] = [
+  { id: "saved", label: "Saved" },
+  { id: "account", label: "Account" },
+  { id: "sessions", label: "Sessions" },
+];
+
+// "#/account" -> "account". The route lives in the URL hash, so it survives
+// the side panel being reloaded.
+const parseRoute = (hash: string): Route => routes.find(({ id }) => hash === `#/${id}`)?.id ?? "saved";
+
+function useRoute(): Route {
+  const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
+  return route;
+}
+
+// The side panel (`side_panel` in the manifest). It is the same page for
+// every tab of a window, so it stays open, on the same route, as the user
+// switches tabs, and follows the active tab.
+export const SidePanel: React.FC = () => {
+  const { user, isAuthenticated, isLoading, error, login, logout } = useEdgeSession();
+  const { updateRequired } = useRemoteConfig();
+  const activeTab = useActiveTab();
+  const route = useRoute();
+
+  const handleLogin = async () => {
+    try {
+      await login();
+    } catch (error) {
+      console.error("Login failed:", error);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (error) {
+      console.error("Logout failed:", error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="sidepanel-container">
+        <div className="loading">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="sidepanel-container">
+      <div className="sidepanel-header">
+        <h1>RedwoodSDK</h1>
+        {isAuthenticated && (
+          <nav className="sidepanel-nav">
+            {routes.map(({ id, label }) => (
+              <a key={id} href={`#/${id}`} className={id === route ? "active" : undefined}>
+                {label}
+              </a>
+            ))}
+          </nav>
+        )}
+      </div>
+
+      {error && (
+        <div className="error-message">
+          <p>Error: {error}</p>
+        </div>
+      )}
+
+      {updateRequired && (
+        <div className="update-required">
+          <p>This version of the extension is no longer supported. Update it to keep using it.</p>
+        </div>
+      )}
+
+      {isAuthenticated ? (
+        <div className="sidepanel-content">
+          {route === "saved" && <SavedItems activeTab={activeTab} />}
+          {route === "account" && <Account user={user} onLogout={handleLogout} />}
+          {route === "sessions" && <SessionList />}
+        </div>
+      ) : (
+        <div className="unauthenticated-state">
+          <p>Please log in to continue</p>
+          <button onClick={handleLogin} className="btn btn-primary">
+            Login
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SidePanel } from '../SidePanel';
+import { mockChrome } from '../../test/setup';
+
+const mockUseEdgeSession = vi.fn();
+vi.mock('../../shared/useEdgeSession', () => ({
+  useEdgeSession: () => mockUseEdgeSession(),
+}));
+
+vi.mock('../../shared/useRemoteConfig', () => ({
+  useRemoteConfig: () => ({ config: null, isEnabled: () => true, updateRequired: false }),
+}));
+
+const mockSearchBookmarks = vi.fn();
+const mockDeleteBookmark = vi.fn();
+vi.mock('../../shared/page-capture', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../shared/page-capture')>()),
+  searchBookmarks: (filters: unknown) => mockSearchBookmarks(filters),
+  deleteBookmark: (id: string) => mockDeleteBookmark(id),
+}));
+
+// The popup's components have tests of their own
+vi.mock('../../popup/SavePage', () => ({ SavePage: () => <div>Save this page</div> }));
+vi.mock('../../popup/SessionList', () => ({ SessionList: () => <div>Session list</div> }));
+
+const articleTab = { id: 1, windowId: 5, active: true, url: 'https://example.com/article', title: 'Article' };
+const otherTab = { id: 2, windowId: 5, active: true, url: 'https://other.example/', title: 'Other' };
+
+const bookmark = (id: string, url: string, title: string) => ({
+  id,
+  url,
+  title,
+  description: null,
+  notes: null,
+  tags: ['news'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const savedBookmarks = [
+  bookmark('b1', 'https://example.com/article', 'Saved article'),
+  bookmark('b2', 'https://blog.example/post', 'Saved post'),
+];
+
+const signedIn = (logout = vi.fn()) =>
+  mockUseEdgeSession.mockReturnValue({
+    user: { id: '1', email: 'test@example.com', name: 'Test User' },
+    isAuthenticated: true,
+    isLoading: false,
+    error: null,
+    login: vi.fn(),
+    logout,
+    refresh: vi.fn(),
+    updateUser: vi.fn(),
+  });
+
+describe('SidePanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    window.location.hash = '';
+    mockChrome.tabs.query.mockResolvedValue([articleTab]);
+    mockChrome.tabs.get.mockResolvedValue(otherTab);
+    mockSearchBookmarks.mockImplementation(async ({ url }: { url?: string }) =>
+      url ? savedBookmarks.filter((saved) => saved.url === url) : savedBookmarks
+    );
+    mockDeleteBookmark.mockResolvedValue(undefined);
+    signedIn();
+  });
+
+  afterEach(() => {
+    window.location.hash = '';
+  });
+
+  it('should ask to log in when unauthenticated', () => {
+    const mockLogin = vi.fn();
+    mockUseEdgeSession.mockReturnValue({
+      user: null,
+      isAuthenticated: false,
+      isLoading: false,
+      error: null,
+      login: mockLogin,
+      logout: vi.fn(),
+      refresh: vi.fn(),
+      updateUser: vi.fn(),
+    });
+
+    render(<SidePanel />);
+
+    expect(screen.queryByText('Saved')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Login'));
+
+    expect(mockLogin).toHaveBeenCalled();
+  });
+
+  it('should list saved pages and mark the one in the active tab', async () => {
+    render(<SidePanel />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Saved article')).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('Saved post')).toBeInTheDocument();
+    expect(screen.getByText(/This page · example.com/)).toBeInTheDocument();
+    expect(screen.queryByText('Save this page')).not.toBeInTheDocument();
+  });
+
+  it('should search saved pages', async () => {
+    render(<SidePanel />);
+
+    fireEvent.change(screen.getByLabelText('Search saved pages'), { target: { value: ' post ' } });
+    fireEvent.submit(screen.getByLabelText('Search saved pages'));
+
+    await waitFor(() => {
+      expect(mockSearchBookmarks).toHaveBeenCalledWith({ query: 'post' });
+    });
+  });
+
+  it('should follow the active tab', async () => {
+    render(<SidePanel />);
+
+    await waitFor(() => {
+      expect(mockChrome.tabs.onActivated.addListener).toHaveBeenCalled();
+      expect(screen.getByText(/This page/)).toBeInTheDocument();
+    });
+
+    const handleActivated = mockChrome.tabs.onActivated.addListener.mock.calls[0][0];
+    await act(async () => handleActivated({ tabId: 2, windowId: 5 }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Save this page')).toBeInTheDocument();
+    });
+
+    expect(mockChrome.tabs.get).toHaveBeenCalledWith(2);
+    expect(mockSearchBookmarks).toHaveBeenCalledWith({ url: 'https://other.example/' });
+    expect(screen.queryByText(/This page/)).not.toBeInTheDocument();
+  });
+
+  it('should ignore tabs activated in other windows', async () => {
+    render(<SidePanel />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/This page/)).toBeInTheDocument();
+    });
+
+    const handleActivated = mockChrome.tabs.onActivated.addListener.mock.calls[0][0];
+    await act(async () => handleActivated({ tabId: 2, windowId: 6 }));
+
+    expect(mockChrome.tabs.get).not.toHaveBeenCalled();
+  });
+
+  it('should follow the active tab navigating', async () => {
+    render(<SidePanel />);
+
+    await waitFor(() => {
+      expect(mockChrome.tabs.onUpdated.addListener).toHaveBeenCalled();
+      expect(screen.getByText(/This page/)).toBeInTheDocument();
+    });
+
+    const handleUpdated = mockChrome.tabs.onUpdated.addListener.mock.calls[0][0];
+    const url = 'https://blog.example/post';
+    await act(async () => handleUpdated(1, { url }, { ...articleTab, url }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/This page · blog.example/)).toBeInTheDocument();
+    });
+  });
+
+  it('should delete a saved page', async () => {
+    render(<SidePanel />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Saved post')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getAllByText('Delete')[1]);
+
+    await waitFor(() => {
+      expect(screen.queryByText('Saved post')).not.toBeInTheDocument();
+    });
+
+    expect(mockDeleteBookmark).toHaveBeenCalledWith('b2');
+  });
+
+  it('should show the account route', async () => {
+    const mockLogout = vi.fn();
+    signedIn(mockLogout);
+    window.location.hash = '#/account';
+
+    render(<SidePanel />);
+
+    expect(screen.getByText('Test User')).toBeInTheDocument();
+    expect(screen.getByText('test@example.com')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Logout'));
+
+    expect(mockLogout).toHaveBeenCalled();
+  });
+
+  it('should switch routes from the navigation', async () => {
+    render(<SidePanel />);
+
+    await act(async () => {
+      window.location.hash = '#/sessions';
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+
+    expect(screen.getByText('Session list')).toBeInTheDocument();
+    expect(screen.getByText('Sessions')).toHaveClass('active');
+    expect(screen.queryByText('Saved article')).not.toBeInTheDocument();
+  });
+
+  it('should stop following tabs when closed', () => {
+    const { unmount } = render(<SidePanel />);
+
+    unmount();
+
+    expect(mockChrome.tabs.onActivated.removeListener).toHaveBeenCalled();
+    expect(mockChrome.tabs.onUpdated.removeListener).toHaveBeenCalled();
+  });
+});
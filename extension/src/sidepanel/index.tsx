@@ -0,0 +1,16 @@
+import React from "react";
+import ReactDOM from "react-dom/client";
+import { SidePanel } from "./SidePanel";
+// Styles of the popup components the side panel reuses
+import "../popup/popup.css";
+import "./sidepanel.css";
+
+const root = ReactDOM.createRoot(
+  document.getElementById("sidepanel-root") as HTMLElement
+);
+
+root.render(
+  <React.StrictMode>
+    <SidePanel />
+  </React.StrictMode>
+);
@@ -9,38 +9,46 @@ export const mockEdgeFetchClient = {
   put: vi.fn(),
   delete: vi.fn(),
   fetchJson: vi.fn(),
+  logout: vi.fn(),
   authenticateWithPasskey: vi.fn(),
   isAuthenticated: vi.fn().mockReturnValue(false),
   getTokenData: vi.fn().mockReturnValue(null),
+  getSessionExpiresAt: vi.fn().mockReturnValue(null),
   updateTokenData: vi.fn(),
   updateBaseUrl: vi.fn(),
+  getBaseUrl: vi.fn().mockResolvedValue('http://localhost:8787'),
 };
 
-// Mock edge-fetch module
-vi.mock('../../shared/edge-fetch', () => ({
+// Stands in for the edge-fetch module. `vi.mock` is only hoisted in test
+// files, so tests register it themselves:
+//
+//   vi.mock('../edge-fetch', async () => (await import('../../test/mocks/edge-fetch')).edgeFetchModule);
+export const edgeFetchModule = {
   edgeFetch: mockEdgeFetchClient.fetch,
   edgeGet: mockEdgeFetchClient.get,
   edgePost: mockEdgeFetchClient.post,
   edgePut: mockEdgeFetchClient.put,
   edgeDelete: mockEdgeFetchClient.delete,
   edgeFetchJson: mockEdgeFetchClient.fetchJson,
+  edgeLogout: mockEdgeFetchClient.logout,
   authenticateWithPasskey: mockEdgeFetchClient.authenticateWithPasskey,
   edgeFetchClient: mockEdgeFetchClient,
-}));
+};
 
 // Helper functions for tests
 export const mockAuthenticatedState = (user: any = { id: '1', email: 'test@example.com' }) => {
   mockEdgeFetchClient.isAuthenticated.mockReturnValue(true);
-  mockEdgeFetchClient.fetch.mockResolvedValue(
-    new Response(JSON.stringify(user), { status: 200 })
+  // A new response per call, as a body can only be read once
+  mockEdgeFetchClient.fetch.mockImplementation(
+    async () => new Response(JSON.stringify(user), { status: 200 })
   );
   mockEdgeFetchClient.fetchJson.mockResolvedValue(user);
 };
 
 export const mockUnauthenticatedState = () => {
   mockEdgeFetchClient.isAuthenticated.mockReturnValue(false);
-  mockEdgeFetchClient.fetch.mockResolvedValue(
-    new Response('Unauthorized', { status: 401 })
+  mockEdgeFetchClient.fetch.mockImplementation(
+    async () => new Response('Unauthorized', { status: 401 })
   );
   mockEdgeFetchClient.fetchJson.mockRejectedValue(new Error('Unauthorized'));
 };
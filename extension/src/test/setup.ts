@@ -1,5 +1,11 @@
+import '@testing-library/jest-dom/vitest';
 import { beforeEach, vi } from 'vitest';
 
+const mockEvent = () => ({
+  addListener: vi.fn(),
+  removeListener: vi.fn(),
+});
+
 // Mock Chrome APIs
 const mockChrome = {
   storage: {
@@ -21,24 +27,63 @@ const mockChrome = {
   },
   tabs: {
     create: vi.fn(),
+    get: vi.fn(),
+    query: vi.fn().mockResolvedValue([]),
+    sendMessage: vi.fn(),
     onUpdated: {
       addListener: vi.fn(),
       removeListener: vi.fn(),
     },
+    onActivated: mockEvent(),
+  },
+  permissions: {
+    contains: vi.fn().mockResolvedValue(false),
+    request: vi.fn().mockResolvedValue(false),
+    remove: vi.fn().mockResolvedValue(true),
+    getAll: vi.fn().mockResolvedValue({ origins: [] }),
+    onAdded: mockEvent(),
+    onRemoved: mockEvent(),
+  },
+  windows: {
+    getCurrent: vi.fn().mockResolvedValue({ id: 1 }),
+  },
+  sidePanel: {
+    open: vi.fn().mockResolvedValue(undefined),
+  },
+  alarms: {
+    create: vi.fn().mockResolvedValue(undefined),
+    clear: vi.fn().mockResolvedValue(true),
+    onAlarm: mockEvent(),
   },
   runtime: {
+    id: 'test-extension-id',
     getManifest: vi.fn().mockReturnValue({
       version: '1.0.0',
       name: 'Test Extension',
     }),
     sendMessage: vi.fn(),
+    openOptionsPage: vi.fn(),
+    connect: vi.fn(() => ({
+      postMessage: vi.fn(),
+      disconnect: vi.fn(),
+      onMessage: mockEvent(),
+      onDisconnect: mockEvent(),
+    })),
     onMessage: {
       addListener: vi.fn(),
       removeListener: vi.fn(),
     },
+    onConnect: mockEvent(),
   },
 };
 
+// Modules read `chrome` as soon as they are imported
+Object.defineProperty(globalThis, 'chrome', {
+  value: mockChrome,
+  writable: true,
+  configurable: true,
+});
+
 // Global setup
 beforeEach(() => {
   // Mock Chrome APIs
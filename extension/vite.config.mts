@@ -1,27 +1,55 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 import { crx } from "@crxjs/vite-plugin";
 import manifest from "./manifest.json";
 
-export default defineConfig({
-  plugins: [
-    react(),
-    crx({ manifest }),
-  ],
-  resolve: {
-    alias: {
-      "@": new URL("./src", import.meta.url).pathname,
+// The web app's sign-in and step-up pages message the extension, which Chrome
+// only allows from the origins in `externally_connectable`. The manifest lists
+// localhost for development; the origin of `VITE_EDGE_API_URL` is added here.
+function withEdgeOrigin(edgeApiUrl: string | undefined) {
+  if (!edgeApiUrl) {
+    return manifest;
+  }
+
+  // Match patterns leave out the port
+  const { protocol, hostname } = new URL(edgeApiUrl);
+  const pattern = `${protocol}//${hostname}/*`;
+  const { matches } = manifest.externally_connectable;
+
+  if (matches.includes(pattern)) {
+    return manifest;
+  }
+
+  return {
+    ...manifest,
+    externally_connectable: { ...manifest.externally_connectable, matches: [...matches, pattern] },
+  };
+}
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "VITE_");
+
+  return {
+    plugins: [
+      react(),
+      crx({ manifest: withEdgeOrigin(env.VITE_EDGE_API_URL) }),
+    ],
+    resolve: {
+      alias: {
+        "@": new URL("./src", import.meta.url).pathname,
+      },
     },
-  },
-  build: {
-    rollupOptions: {
-      input: {
-        popup: "src/popup/index.html",
-        options: "src/options/index.html",
+    build: {
+      rollupOptions: {
+        input: {
+          popup: "src/popup/index.html",
+          options: "src/options/index.html",
+          sidepanel: "src/sidepanel/index.html",
+        },
       },
     },
-  },
-  define: {
-    __DEV__: process.env.NODE_ENV === "development",
-  },
-});
\ No newline at end of file
+    define: {
+      __DEV__: process.env.NODE_ENV === "development",
+    },
+  };
+});
@@ -0,0 +1,9 @@
+-- DropIndex
+DROP INDEX "Credential_userId_key";
+
+-- AlterTable
+ALTER TABLE "Credential" ADD COLUMN "name" TEXT;
+ALTER TABLE "Credential" ADD COLUMN "transports" TEXT;
+ALTER TABLE "Credential" ADD COLUMN "backupEligible" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Credential" ADD COLUMN "backedUp" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Credential" ADD COLUMN "lastUsedAt" DATETIME;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "syncRevision" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "SyncRecord" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "collection" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "fieldMeta" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SyncRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncRecord_userId_collection_key_key" ON "SyncRecord"("userId", "collection", "key");
+
+-- CreateIndex
+CREATE INDEX "SyncRecord_userId_revision_idx" ON "SyncRecord"("userId", "revision");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TrackedEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "url" TEXT,
+    "occurredAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TrackedEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackedEvent_userId_clientId_key" ON "TrackedEvent"("userId", "clientId");
+
+-- CreateIndex
+CREATE INDEX "TrackedEvent_userId_occurredAt_idx" ON "TrackedEvent"("userId", "occurredAt");
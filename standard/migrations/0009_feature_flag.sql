@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "FeatureFlag" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "enabled" BOOLEAN NOT NULL,
+    "rolloutPercent" INTEGER NOT NULL DEFAULT 100,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "FeatureFlagOverride" (
+    "userId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("userId", "key"),
+    CONSTRAINT "FeatureFlagOverride_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
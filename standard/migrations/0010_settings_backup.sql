@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "SettingsBackup" (
+    "userId" TEXT NOT NULL PRIMARY KEY,
+    "data" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SettingsBackup_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
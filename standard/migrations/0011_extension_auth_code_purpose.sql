@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ExtensionAuthCode" ADD COLUMN "purpose" TEXT NOT NULL DEFAULT 'sign_in';
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "IdempotentRequest" (
+    "userId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "status" INTEGER,
+    "body" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("userId", "key"),
+    CONSTRAINT "IdempotentRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "IdempotentRequest_userId_createdAt_idx" ON "IdempotentRequest"("userId", "createdAt");
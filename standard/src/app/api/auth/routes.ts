@@ -0,0 +1,291 @@
+import { route } from "rwsdk/router";
+import { ErrorResponse, RequestInfo } from "rwsdk/worker";
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { getSessionStub, sessions } from "@/session/store";
+import { tokens } from "@/session/tokens";
+import { db } from "@/db";
+import {
+  type RegistrationErrorCode,
+  createLoginOptions,
+  createReauthenticationOptions,
+  createRegistrationOptions,
+  verifyLogin,
+  verifyReauthentication,
+  verifyRegistration,
+} from "@/app/pages/user/passkeys";
+import { usernameErrorMessages } from "@/app/pages/user/username";
+import {
+  consumeHandoffCode,
+  isAllowedExtension,
+} from "@/app/pages/auth/handoff";
+import { requireApiUser, requireMethod } from "@/app/interruptors";
+import { jsonError, readJson, toPublicUser } from "../responses";
+
+const registrationError = (error: RegistrationErrorCode) => {
+  switch (error) {
+    case "username_taken":
+      return jsonError(409, error, "This username is already taken");
+    case "challenge_missing":
+      return jsonError(400, error, "Registration challenge missing or expired");
+    case "verification_failed":
+      return jsonError(
+        400,
+        error,
+        "Passkey registration could not be verified",
+      );
+    default:
+      return jsonError(400, error, usernameErrorMessages[error]);
+  }
+};
+
+async function finishLogin({ request }: RequestInfo) {
+  const body = await readJson<{ credential?: AuthenticationResponseJSON }>(
+    request,
+  );
+
+  if (!body?.credential) {
+    return jsonError(400, "invalid_request", "Missing passkey credential");
+  }
+
+  const user = await verifyLogin(body.credential);
+
+  if (!user) {
+    return jsonError(401, "invalid_credential", "Passkey verification failed");
+  }
+
+  return Response.json({
+    user: toPublicUser(user),
+    ...(await tokens.issue(user.id, { authenticatedAt: Date.now() })),
+  });
+}
+
+export const authApiRoutes = [
+  route("/session", [
+    requireMethod("GET"),
+    requireApiUser,
+    ({ ctx }) => Response.json(toPublicUser(ctx.user!)),
+  ]),
+  route("/webauthn/challenge", [
+    requireMethod("GET", "POST"),
+    async () => Response.json(await createLoginOptions()),
+  ]),
+  route("/webauthn/verify", [requireMethod("POST"), finishLogin]),
+  route("/login", [requireMethod("POST"), finishLogin]),
+  route("/reauthenticate/challenge", [
+    requireMethod("POST"),
+    requireApiUser,
+    async ({ ctx }) =>
+      Response.json(
+        await createReauthenticationOptions(ctx.user!, ctx.session!),
+      ),
+  ]),
+  route("/reauthenticate", [
+    requireMethod("POST"),
+    requireApiUser,
+    async ({ request, ctx }) => {
+      const body = await readJson<{ credential?: AuthenticationResponseJSON }>(
+        request,
+      );
+
+      if (!body?.credential) {
+        return jsonError(400, "invalid_request", "Missing passkey credential");
+      }
+
+      const verified = await verifyReauthentication(
+        ctx.user!,
+        ctx.session!,
+        body.credential,
+      );
+
+      if (!verified) {
+        return jsonError(
+          401,
+          "invalid_credential",
+          "Passkey verification failed",
+        );
+      }
+
+      return new Response(null, { status: 204 });
+    },
+  ]),
+  route("/register/challenge", [
+    requireMethod("POST"),
+    async ({ request }) => {
+      const body = await readJson<{ username?: string }>(request);
+
+      if (!body?.username) {
+        return jsonError(400, "invalid_request", "Missing username");
+      }
+
+      const result = await createRegistrationOptions(body.username);
+
+      if ("error" in result) {
+        return registrationError(result.error);
+      }
+
+      return Response.json(result.value);
+    },
+  ]),
+  route("/register", [
+    requireMethod("POST"),
+    async ({ request }) => {
+      const body = await readJson<{
+        username?: string;
+        registration?: RegistrationResponseJSON;
+      }>(request);
+
+      if (!body?.username || !body.registration) {
+        return jsonError(
+          400,
+          "invalid_request",
+          "Missing username or passkey registration",
+        );
+      }
+
+      const result = await verifyRegistration(body.username, body.registration);
+
+      if ("error" in result) {
+        return registrationError(result.error);
+      }
+
+      const { user, recoveryCodes } = result.value;
+
+      return Response.json(
+        {
+          user: toPublicUser(user),
+          recoveryCodes,
+          ...(await tokens.issue(user.id, { authenticatedAt: Date.now() })),
+        },
+        { status: 201 },
+      );
+    },
+  ]),
+  route("/extension/token", [
+    requireMethod("POST"),
+    async ({ request }) => {
+      const body = await readJson<{ code?: string; extensionId?: string }>(
+        request,
+      );
+
+      if (!body?.code || !body.extensionId) {
+        return jsonError(400, "invalid_request", "Missing code or extensionId");
+      }
+
+      if (!isAllowedExtension(body.extensionId)) {
+        return jsonError(
+          403,
+          "unknown_extension",
+          "This extension is not allowed to sign in",
+        );
+      }
+
+      const userId = await consumeHandoffCode(body.code, body.extensionId);
+      const user = userId
+        ? await db.user.findUnique({ where: { id: userId } })
+        : null;
+
+      if (!user) {
+        return jsonError(
+          401,
+          "invalid_code",
+          "The sign-in code is invalid or has expired",
+        );
+      }
+
+      return Response.json({
+        user: toPublicUser(user),
+        ...(await tokens.issue(user.id)),
+      });
+    },
+  ]),
+  // Marks the extension's session as recently authenticated, with a code the
+  // `/auth/extension/reauthenticate` page issued after a passkey step-up
+  route("/extension/reauthenticate", [
+    requireMethod("POST"),
+    requireApiUser,
+    async ({ request, ctx }) => {
+      const body = await readJson<{ code?: string; extensionId?: string }>(
+        request,
+      );
+
+      if (!body?.code || !body.extensionId) {
+        return jsonError(400, "invalid_request", "Missing code or extensionId");
+      }
+
+      if (!isAllowedExtension(body.extensionId)) {
+        return jsonError(
+          403,
+          "unknown_extension",
+          "This extension is not allowed to sign in",
+        );
+      }
+
+      const userId = await consumeHandoffCode(
+        body.code,
+        body.extensionId,
+        "reauthenticate",
+      );
+
+      // The passkey must have been verified by the same user
+      if (userId !== ctx.user!.id) {
+        return jsonError(
+          401,
+          "invalid_code",
+          "The verification code is invalid or has expired",
+        );
+      }
+
+      await getSessionStub(ctx.session!.id).markAuthenticated();
+
+      return new Response(null, { status: 204 });
+    },
+  ]),
+  route("/refresh", [
+    requireMethod("POST"),
+    async ({ request }) => {
+      const body = await readJson<{ refreshToken?: string }>(request.clone());
+
+      if (!body?.refreshToken) {
+        return;
+      }
+
+      try {
+        return Response.json(await tokens.refresh(body.refreshToken));
+      } catch (error) {
+        if (error instanceof ErrorResponse) {
+          return jsonError(error.code, "invalid_refresh_token", error.message);
+        }
+
+        throw error;
+      }
+    },
+    requireApiUser,
+    async ({ request, headers, ctx }) => {
+      // Rotate the cookie session so the session id and its idle timeout are
+      // renewed, without the client having to go through a passkey ceremony.
+      // The absolute lifetime still counts from the original sign-in.
+      await sessions.remove(request, headers);
+      await sessions.save(headers, {
+        userId: ctx.user!.id,
+        createdAt: ctx.session!.createdAt,
+      });
+
+      return Response.json({ user: toPublicUser(ctx.user!) });
+    },
+  ]),
+  route("/logout", [
+    requireMethod("POST"),
+    async ({ request, headers }) => {
+      const body = await readJson<{ refreshToken?: unknown }>(request);
+      await tokens.remove(
+        request,
+        typeof body?.refreshToken === "string" ? body.refreshToken : null,
+      );
+      await sessions.remove(request, headers);
+      return new Response(null, { status: 204 });
+    },
+  ]),
+];
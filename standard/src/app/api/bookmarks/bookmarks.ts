@@ -0,0 +1,164 @@
+import { type Bookmark, db } from "@/db";
+
+// Pages saved from the extension's popup or context menu, listed and
+// searched on `/bookmarks`
+
+const MAX_URL_LENGTH = 2048;
+const MAX_TITLE_LENGTH = 512;
+const MAX_DESCRIPTION_LENGTH = 2048;
+const MAX_NOTES_LENGTH = 4096;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+const MAX_EXTRACTED_SIZE = 64 * 1024; // Characters of JSON
+const MAX_RESULTS = 100;
+
+export interface BookmarkInput {
+  url: string;
+  title: string;
+  description: string | null;
+  notes: string | null;
+  tags: string[];
+  extracted: Record<string, unknown>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optionalText = (value: unknown, maxLength: number) =>
+  typeof value === "string" && value.trim()
+    ? value.trim().slice(0, maxLength)
+    : null;
+
+// Lowercase, trimmed and deduplicated, so tags can be matched exactly
+export const normalizeTags = (tags: string[]) => [
+  ...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+];
+
+export function parseBookmarkInput(
+  body: unknown,
+): { value: BookmarkInput } | { error: string } {
+  if (!isObject(body)) {
+    return { error: "Expected a bookmark object" };
+  }
+
+  const { url, title, description, notes, tags = [], extracted = {} } = body;
+
+  if (
+    typeof url !== "string" ||
+    url.length > MAX_URL_LENGTH ||
+    !URL.canParse(url) ||
+    !["http:", "https:"].includes(new URL(url).protocol)
+  ) {
+    return {
+      error: `url must be an http(s) URL of at most ${MAX_URL_LENGTH} characters`,
+    };
+  }
+
+  if (
+    !Array.isArray(tags) ||
+    tags.length > MAX_TAGS ||
+    !tags.every(
+      (tag) => typeof tag === "string" && tag.trim().length <= MAX_TAG_LENGTH,
+    )
+  ) {
+    return {
+      error: `tags must be at most ${MAX_TAGS} strings of at most ${MAX_TAG_LENGTH} characters`,
+    };
+  }
+
+  if (
+    !isObject(extracted) ||
+    JSON.stringify(extracted).length > MAX_EXTRACTED_SIZE
+  ) {
+    return {
+      error: `extracted must be an object of at most ${MAX_EXTRACTED_SIZE} characters of JSON`,
+    };
+  }
+
+  return {
+    value: {
+      url,
+      // Long titles and descriptions are cut rather than rejected, as they
+      // come straight from the page
+      title: optionalText(title, MAX_TITLE_LENGTH) ?? url,
+      description: optionalText(description, MAX_DESCRIPTION_LENGTH),
+      notes: optionalText(notes, MAX_NOTES_LENGTH),
+      tags: normalizeTags(tags as string[]),
+      extracted,
+    },
+  };
+}
+
+export const toPublicBookmark = (bookmark: Bookmark) => ({
+  id: bookmark.id,
+  url: bookmark.url,
+  title: bookmark.title,
+  description: bookmark.description,
+  notes: bookmark.notes,
+  tags: JSON.parse(bookmark.tags) as string[],
+  extracted: JSON.parse(bookmark.extracted) as Record<string, unknown>,
+  createdAt: bookmark.createdAt,
+  updatedAt: bookmark.updatedAt,
+});
+
+// Saving a page that is already bookmarked updates the bookmark. Returns
+// whether it was created.
+export async function saveBookmark(userId: string, input: BookmarkInput) {
+  const data = {
+    title: input.title,
+    description: input.description,
+    notes: input.notes,
+    tags: JSON.stringify(input.tags),
+    extracted: JSON.stringify(input.extracted),
+  };
+
+  const existing = await db.bookmark.findUnique({
+    where: { userId_url: { userId, url: input.url } },
+    select: { id: true },
+  });
+  const bookmark = await db.bookmark.upsert({
+    where: { userId_url: { userId, url: input.url } },
+    create: { userId, url: input.url, ...data },
+    update: data,
+  });
+
+  return { bookmark, created: !existing };
+}
+
+// Newest first. `query` matches the title, URL, description and notes, and
+// `tag` one of the tags exactly.
+export async function searchBookmarks(
+  userId: string,
+  {
+    query,
+    tag,
+    url,
+  }: { query?: string | null; tag?: string | null; url?: string | null } = {},
+) {
+  const [normalizedTag] = normalizeTags(tag ? [tag] : []);
+
+  return db.bookmark.findMany({
+    where: {
+      userId,
+      ...(url && { url }),
+      ...(query && {
+        OR: [
+          { title: { contains: query } },
+          { url: { contains: query } },
+          { description: { contains: query } },
+          { notes: { contains: query } },
+        ],
+      }),
+      ...(normalizedTag && {
+        tags: { contains: JSON.stringify(normalizedTag) },
+      }),
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_RESULTS,
+  });
+}
+
+export async function deleteBookmark(userId: string, id: string) {
+  const { count } = await db.bookmark.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
@@ -0,0 +1,62 @@
+import { route } from "rwsdk/router";
+import { requireApiUser, requireMethod } from "@/app/interruptors";
+import { idempotent } from "../idempotency";
+import { jsonError, readJson } from "../responses";
+import {
+  deleteBookmark,
+  parseBookmarkInput,
+  saveBookmark,
+  searchBookmarks,
+  toPublicBookmark,
+} from "./bookmarks";
+
+export const bookmarkApiRoutes = [
+  route("/", [
+    requireMethod("GET", "POST"),
+    requireApiUser,
+    async ({ request, ctx }) => {
+      if (request.method !== "GET") {
+        return;
+      }
+
+      const { searchParams } = new URL(request.url);
+      const bookmarks = await searchBookmarks(ctx.user!.id, {
+        query: searchParams.get("q"),
+        tag: searchParams.get("tag"),
+        url: searchParams.get("url"),
+      });
+
+      return Response.json({ bookmarks: bookmarks.map(toPublicBookmark) });
+    },
+    idempotent(async ({ request, ctx }) => {
+      const parsed = parseBookmarkInput(await readJson(request));
+
+      if ("error" in parsed) {
+        return jsonError(400, "invalid_bookmark", parsed.error);
+      }
+
+      const { bookmark, created } = await saveBookmark(
+        ctx.user!.id,
+        parsed.value,
+      );
+
+      return Response.json(
+        { bookmark: toPublicBookmark(bookmark) },
+        { status: created ? 201 : 200 },
+      );
+    }),
+  ]),
+  route("/:id", [
+    requireMethod("DELETE"),
+    requireApiUser,
+    async ({ params, ctx }) => {
+      const deleted = await deleteBookmark(ctx.user!.id, params.id);
+
+      if (!deleted) {
+        return jsonError(404, "bookmark_not_found", "No such bookmark");
+      }
+
+      return new Response(null, { status: 204 });
+    },
+  ]),
+];
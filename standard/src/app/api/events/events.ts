@@ -0,0 +1,130 @@
+import { db } from "@/db";
+
+// Events tracked by the extension's content scripts (e.g. clicks on
+// `[data-track]` elements), sent in batches to `POST /api/events` and shown
+// on the user's timeline at `/user/events`
+
+export const MAX_EVENT_BATCH_SIZE = 50;
+const MAX_TYPE_LENGTH = 64;
+const MAX_URL_LENGTH = 2048;
+const MAX_DATA_SIZE = 4096; // Characters of JSON
+const MAX_EVENT_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAX_CLOCK_SKEW = 5 * 60 * 1000; // 5 minutes
+const TIMELINE_PAGE_SIZE = 50;
+
+const EVENT_TYPE_PATTERN = /^[a-z0-9_.:-]+$/i;
+
+export interface IncomingEvent {
+  id: string; // Generated by the client
+  type: string;
+  data?: Record<string, unknown>;
+  url?: string;
+  occurredAt: string;
+}
+
+// Returns a description of what is wrong with the event, or null
+export function validateEvent(event: unknown): string | null {
+  if (typeof event !== "object" || event === null) {
+    return "Events must be objects";
+  }
+
+  const { id, type, data, url, occurredAt } = event as Partial<IncomingEvent>;
+
+  if (typeof id !== "string" || id.length === 0 || id.length > 64) {
+    return "id must be a string of at most 64 characters";
+  }
+
+  if (
+    typeof type !== "string" ||
+    type.length > MAX_TYPE_LENGTH ||
+    !EVENT_TYPE_PATTERN.test(type)
+  ) {
+    return `type must be at most ${MAX_TYPE_LENGTH} letters, digits, or _.:-`;
+  }
+
+  if (
+    data !== undefined &&
+    (typeof data !== "object" || data === null || Array.isArray(data))
+  ) {
+    return "data must be an object";
+  }
+
+  if (data !== undefined && JSON.stringify(data).length > MAX_DATA_SIZE) {
+    return `data must be at most ${MAX_DATA_SIZE} characters of JSON`;
+  }
+
+  if (
+    url !== undefined &&
+    (typeof url !== "string" ||
+      url.length > MAX_URL_LENGTH ||
+      !URL.canParse(url))
+  ) {
+    return `url must be a URL of at most ${MAX_URL_LENGTH} characters`;
+  }
+
+  const occurred =
+    typeof occurredAt === "string" ? Date.parse(occurredAt) : NaN;
+
+  if (
+    Number.isNaN(occurred) ||
+    occurred > Date.now() + MAX_CLOCK_SKEW ||
+    occurred < Date.now() - MAX_EVENT_AGE
+  ) {
+    return "occurredAt must be an ISO date within the last 30 days";
+  }
+
+  return null;
+}
+
+// Stores the events that weren't stored yet. A batch can arrive twice when
+// the response to the first attempt was lost, and if two attempts race, the
+// loser fails on the unique index and its retry skips what the winner stored.
+export async function storeEvents(userId: string, events: IncomingEvent[]) {
+  const existing = await db.trackedEvent.findMany({
+    where: { userId, clientId: { in: events.map((event) => event.id) } },
+    select: { clientId: true },
+  });
+  const seen = new Set(existing.map((event) => event.clientId));
+
+  const fresh = events.filter((event) => {
+    if (seen.has(event.id)) {
+      return false;
+    }
+
+    seen.add(event.id);
+    return true;
+  });
+
+  if (fresh.length > 0) {
+    await db.trackedEvent.createMany({
+      data: fresh.map((event) => ({
+        userId,
+        clientId: event.id,
+        type: event.type,
+        data: JSON.stringify(event.data ?? {}),
+        url: event.url ?? null,
+        occurredAt: new Date(event.occurredAt),
+      })),
+    });
+  }
+
+  return { stored: fresh.length, duplicates: events.length - fresh.length };
+}
+
+// Newest first. Pass the returned `before` to get the next page.
+export async function listEvents(userId: string, before?: Date) {
+  const events = await db.trackedEvent.findMany({
+    where: { userId, ...(before && { occurredAt: { lt: before } }) },
+    orderBy: { occurredAt: "desc" },
+    take: TIMELINE_PAGE_SIZE + 1,
+  });
+  const page = events.slice(0, TIMELINE_PAGE_SIZE);
+
+  return {
+    events: page,
+    before:
+      events.length > TIMELINE_PAGE_SIZE
+        ? page[page.length - 1].occurredAt
+        : null,
+  };
+}
@@ -0,0 +1,55 @@
+import { route } from "rwsdk/router";
+import { requireApiUser, requireMethod } from "@/app/interruptors";
+import { idempotent } from "../idempotency";
+import { jsonError, readJson } from "../responses";
+import {
+  type IncomingEvent,
+  MAX_EVENT_BATCH_SIZE,
+  storeEvents,
+  validateEvent,
+} from "./events";
+
+export const eventApiRoutes = [
+  route("/", [
+    requireMethod("POST"),
+    requireApiUser,
+    idempotent(async ({ request, ctx }) => {
+      const body = await readJson<{ events?: unknown[] }>(request);
+
+      if (!Array.isArray(body?.events) || body.events.length === 0) {
+        return jsonError(
+          400,
+          "invalid_request",
+          "Expected { events } with at least one event",
+        );
+      }
+
+      if (body.events.length > MAX_EVENT_BATCH_SIZE) {
+        return jsonError(
+          413,
+          "batch_too_large",
+          `Send at most ${MAX_EVENT_BATCH_SIZE} events at a time`,
+        );
+      }
+
+      // Invalid events are reported and skipped rather than failing the
+      // whole batch, which the extension would not send again
+      const valid: IncomingEvent[] = [];
+      const rejected: { index: number; message: string }[] = [];
+
+      body.events.forEach((event, index) => {
+        const invalid = validateEvent(event);
+
+        if (invalid) {
+          rejected.push({ index, message: invalid });
+        } else {
+          valid.push(event as IncomingEvent);
+        }
+      });
+
+      const { stored, duplicates } = await storeEvents(ctx.user!.id, valid);
+
+      return Response.json({ stored, duplicates, rejected });
+    }),
+  ]),
+];
@@ -0,0 +1,44 @@
+import { db } from "@/db";
+
+// Settings backups of the extension, stored as is. The extension validates a
+// backup when it restores it, so the worker only checks that it is a JSON
+// object of reasonable size.
+
+const MAX_BACKUP_SIZE = 256 * 1024; // Characters of JSON
+
+export function validateBackup(backup: unknown): string | null {
+  if (typeof backup !== "object" || backup === null || Array.isArray(backup)) {
+    return "backup must be an object";
+  }
+
+  if (JSON.stringify(backup).length > MAX_BACKUP_SIZE) {
+    return `backup must be at most ${MAX_BACKUP_SIZE} characters of JSON`;
+  }
+
+  return null;
+}
+
+export async function getBackup(userId: string) {
+  const backup = await db.settingsBackup.findUnique({ where: { userId } });
+
+  return (
+    backup && {
+      backup: JSON.parse(backup.data) as Record<string, unknown>,
+      updatedAt: backup.updatedAt,
+    }
+  );
+}
+
+export async function saveBackup(
+  userId: string,
+  backup: Record<string, unknown>,
+) {
+  const data = JSON.stringify(backup);
+  const { updatedAt } = await db.settingsBackup.upsert({
+    where: { userId },
+    create: { userId, data },
+    update: { data },
+  });
+
+  return { updatedAt };
+}
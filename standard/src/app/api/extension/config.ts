@@ -0,0 +1,104 @@
+import { db } from "@/db";
+import { env } from "cloudflare:workers";
+
+// Configuration the extension fetches from `/api/extension/config`, so
+// features can be rolled out, rolled back or switched off without shipping a
+// new extension build (see `extension/src/shared/remote-config.ts`).
+//
+// A flag's value comes from, in order of precedence:
+// 1. `EXTENSION_KILL_SWITCHES` in `wrangler.jsonc`, which turns it off for
+//    everyone, without touching the database
+// 2. A `FeatureFlagOverride` row for the signed in user
+// 3. The `FeatureFlag` row, enabled for `rolloutPercent` of users
+// 4. Its default below
+
+export const FEATURE_FLAGS = {
+  // "Save this page" in the popup and the context menu
+  pageCapture: true,
+  // Recording `[data-track]` clicks for `/api/events`
+  activityTracking: true,
+  // Syncing records through `/api/extension/sync`
+  dataSync: true,
+  // The "extension active" badge on the web app's pages
+  pageIndicator: true,
+} satisfies Record<string, boolean>;
+
+export type FeatureFlagKey = keyof typeof FEATURE_FLAGS;
+
+// How long the extension may use its copy before checking again
+const REFRESH_AFTER = 60 * 60; // 1 hour
+
+const isFeatureFlagKey = (key: string): key is FeatureFlagKey =>
+  Object.hasOwn(FEATURE_FLAGS, key);
+
+export function getKillSwitches() {
+  return env.EXTENSION_KILL_SWITCHES.split(",")
+    .map((key) => key.trim())
+    .filter(isFeatureFlagKey);
+}
+
+// Stable for a user and flag, so raising `rolloutPercent` only adds users
+async function rolloutBucket(userId: string, key: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${key}:${userId}`),
+  );
+  return new DataView(digest).getUint32(0) % 100;
+}
+
+export async function getFeatureFlags(userId: string | null) {
+  const flags: Record<FeatureFlagKey, boolean> = { ...FEATURE_FLAGS };
+  const [globalFlags, overrides] = await Promise.all([
+    db.featureFlag.findMany(),
+    userId ? db.featureFlagOverride.findMany({ where: { userId } }) : [],
+  ]);
+
+  for (const flag of globalFlags) {
+    if (!isFeatureFlagKey(flag.key)) continue;
+
+    // Signed out clients only get flags rolled out to everyone
+    flags[flag.key] =
+      flag.enabled &&
+      (flag.rolloutPercent >= 100 ||
+        (!!userId &&
+          (await rolloutBucket(userId, flag.key)) < flag.rolloutPercent));
+  }
+
+  for (const override of overrides) {
+    if (isFeatureFlagKey(override.key)) {
+      flags[override.key] = override.enabled;
+    }
+  }
+
+  const killSwitches = getKillSwitches();
+
+  for (const key of killSwitches) {
+    flags[key] = false;
+  }
+
+  return { flags, killSwitches };
+}
+
+export async function getExtensionConfig(userId: string | null) {
+  const { flags, killSwitches } = await getFeatureFlags(userId);
+
+  return {
+    flags,
+    killSwitches,
+    // Older builds ask the user to update, and turn all flagged features off
+    minVersion: env.EXTENSION_MIN_VERSION,
+    refreshAfter: REFRESH_AFTER,
+  };
+}
+
+// Weak, as it is computed from the JSON rather than the bytes sent
+export async function computeETag(body: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(body),
+  );
+  const hash = Array.from(new Uint8Array(digest).slice(0, 16))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `W/"${hash}"`;
+}
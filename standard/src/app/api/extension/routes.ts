@@ -0,0 +1,128 @@
+import { route } from "rwsdk/router";
+import { requireApiUser, requireMethod } from "@/app/interruptors";
+import { publish } from "@/realtime/events";
+import { jsonError, readJson } from "../responses";
+import { computeETag, getExtensionConfig } from "./config";
+import { getBackup, saveBackup, validateBackup } from "./backup";
+import {
+  MAX_SYNC_BATCH_SIZE,
+  type SyncChange,
+  pullChanges,
+  pushChanges,
+  toPublicSyncRecord,
+  validateSyncChange,
+} from "./sync";
+
+export const extensionApiRoutes = [
+  // Signed out clients get the global flags
+  route("/config", [
+    requireMethod("GET"),
+    async ({ request, ctx }) => {
+      const body = JSON.stringify(
+        await getExtensionConfig(ctx.user?.id ?? null),
+      );
+      const etag = await computeETag(body);
+      const headers = {
+        ETag: etag,
+        // Flags differ per user, and clients revalidate with the ETag
+        "Cache-Control": "private, no-cache",
+        Vary: "Authorization, Cookie",
+      };
+
+      if (request.headers.get("If-None-Match") === etag) {
+        return new Response(null, { status: 304, headers });
+      }
+
+      return new Response(body, {
+        headers: { ...headers, "Content-Type": "application/json" },
+      });
+    },
+  ]),
+  route("/backup", [
+    requireMethod("GET", "PUT"),
+    requireApiUser,
+    async ({ request, ctx }) => {
+      if (request.method !== "GET") {
+        return;
+      }
+
+      const backup = await getBackup(ctx.user!.id);
+
+      if (!backup) {
+        return jsonError(404, "backup_not_found", "Nothing backed up yet");
+      }
+
+      return Response.json(backup);
+    },
+    async ({ request, ctx }) => {
+      const body = await readJson<{ backup?: unknown }>(request);
+      const invalid = validateBackup(body?.backup);
+
+      if (invalid) {
+        return jsonError(400, "invalid_backup", invalid);
+      }
+
+      return Response.json(
+        await saveBackup(ctx.user!.id, body!.backup as Record<string, unknown>),
+      );
+    },
+  ]),
+  route("/sync", [
+    requireMethod("POST"),
+    requireApiUser,
+    async ({ request, ctx, cf }) => {
+      const body = await readJson<{ cursor?: number; changes?: unknown[] }>(
+        request,
+      );
+      const cursor = body?.cursor ?? 0;
+      const changes = body?.changes ?? [];
+
+      if (!Number.isInteger(cursor) || cursor < 0 || !Array.isArray(changes)) {
+        return jsonError(
+          400,
+          "invalid_request",
+          "Expected { cursor, changes } with a non-negative integer cursor",
+        );
+      }
+
+      if (changes.length > MAX_SYNC_BATCH_SIZE) {
+        return jsonError(
+          413,
+          "batch_too_large",
+          `Push at most ${MAX_SYNC_BATCH_SIZE} changes at a time`,
+        );
+      }
+
+      for (const change of changes) {
+        const invalid = validateSyncChange(change);
+
+        if (invalid) {
+          return jsonError(400, "invalid_change", invalid);
+        }
+      }
+
+      const conflicts = await pushChanges(
+        ctx.user!.id,
+        changes as SyncChange[],
+      );
+      const pulled = await pullChanges(ctx.user!.id, cursor);
+
+      if (changes.length > 0) {
+        // Lets the user's other clients pull the changes right away
+        cf.waitUntil(
+          publish(ctx.user!.id, {
+            type: "sync.changed",
+            sessionId: ctx.session!.id,
+          }),
+        );
+      }
+
+      return Response.json({
+        cursor: pulled.cursor,
+        hasMore: pulled.hasMore,
+        records: pulled.records.map(toPublicSyncRecord),
+        conflicts,
+      });
+    },
+  ]),
+];
@@ -0,0 +1,286 @@
+import { type SyncRecord, db } from "@/db";
+
+// Versioned sync of small JSON records between a user's clients (see
+// `extension/src/shared/sync.ts`). A client pushes the changes it made since
+// its last sync, along with the cursor it got back last time, and receives
+// every record that changed after that cursor, including the merged result of
+// its own changes.
+//
+// Each change carries the `baseRevision` of the record the client edited.
+// Fields nobody else changed since then are applied as is. When the same field
+// was also changed on the server, the change made last (by the client's
+// `changedAt`) wins, and the response reports the conflict.
+
+export const MAX_SYNC_BATCH_SIZE = 100;
+const MAX_PULL_SIZE = 200;
+const MAX_NAME_LENGTH = 128; // For collections, keys and field names
+const MAX_WRITE_ATTEMPTS = 5;
+
+export interface SyncChange {
+  collection: string;
+  key: string;
+  // Revision of the record the change was based on, or null for a new record
+  baseRevision: number | null;
+  // Only the fields that changed
+  fields?: Record<string, unknown>;
+  deleted?: boolean;
+  changedAt: string;
+}
+
+export interface SyncConflict {
+  collection: string;
+  key: string;
+  field: string; // "*" when a deletion conflicts with the whole record
+  winner: "client" | "server";
+}
+
+interface FieldMeta {
+  revision: number;
+  updatedAt: number;
+}
+
+const isValidName = (value: unknown): value is string =>
+  typeof value === "string" &&
+  value.length > 0 &&
+  value.length <= MAX_NAME_LENGTH;
+
+// Returns a description of what is wrong with the change, or null
+export function validateSyncChange(change: unknown): string | null {
+  if (typeof change !== "object" || change === null) {
+    return "Changes must be objects";
+  }
+
+  const { collection, key, baseRevision, fields, deleted, changedAt } =
+    change as Partial<SyncChange>;
+
+  if (!isValidName(collection) || !isValidName(key)) {
+    return `Changes need a collection and key of at most ${MAX_NAME_LENGTH} characters`;
+  }
+
+  if (
+    baseRevision !== null &&
+    !(typeof baseRevision === "number" && Number.isInteger(baseRevision))
+  ) {
+    return "baseRevision must be an integer or null";
+  }
+
+  if (
+    fields !== undefined &&
+    (typeof fields !== "object" ||
+      fields === null ||
+      Array.isArray(fields) ||
+      !Object.keys(fields).every(isValidName))
+  ) {
+    return "fields must be an object of changed fields";
+  }
+
+  if (deleted !== undefined && typeof deleted !== "boolean") {
+    return "deleted must be a boolean";
+  }
+
+  if (typeof changedAt !== "string" || Number.isNaN(Date.parse(changedAt))) {
+    return "changedAt must be an ISO date";
+  }
+
+  return null;
+}
+
+export const toPublicSyncRecord = (record: SyncRecord) => ({
+  collection: record.collection,
+  key: record.key,
+  revision: record.revision,
+  deleted: record.deleted,
+  data: record.deleted ? null : JSON.parse(record.data),
+  updatedAt: record.updatedAt,
+});
+
+// Merges the change into the existing record. Returns the new columns, or null
+// when nothing from the change survived the merge.
+function mergeChange(
+  existing: SyncRecord | null,
+  change: SyncChange,
+  revision: number,
+  changedAt: number,
+  conflicts: SyncConflict[],
+) {
+  const base = change.baseRevision ?? 0;
+  const conflict = (field: string, winner: SyncConflict["winner"]) =>
+    conflicts.push({
+      collection: change.collection,
+      key: change.key,
+      field,
+      winner,
+    });
+
+  const data: Record<string, unknown> = existing
+    ? JSON.parse(existing.data)
+    : {};
+  const fieldMeta: Record<string, FieldMeta> = existing
+    ? JSON.parse(existing.fieldMeta)
+    : {};
+  const changedSinceBase = !!existing && existing.revision > base;
+  const serverIsNewer = !!existing && existing.updatedAt.getTime() > changedAt;
+
+  // Deleting a record someone else edited later, or editing a record someone
+  // else deleted later, is decided for the whole record
+  if (
+    changedSinceBase &&
+    serverIsNewer &&
+    (change.deleted || existing.deleted)
+  ) {
+    conflict("*", "server");
+    return null;
+  }
+
+  if (change.deleted) {
+    if (changedSinceBase) {
+      conflict("*", "client");
+    }
+
+    // Tombstones keep no fields, so a record created again under the same key
+    // starts over instead of merging into the deleted one
+    return { data: "{}", fieldMeta: "{}", deleted: true };
+  }
+
+  let applied = existing?.deleted ?? !existing;
+
+  for (const [field, value] of Object.entries(change.fields ?? {})) {
+    const meta = fieldMeta[field];
+
+    if (meta && meta.revision > base) {
+      if (meta.updatedAt > changedAt) {
+        conflict(field, "server");
+        continue;
+      }
+
+      conflict(field, "client");
+    }
+
+    data[field] = value;
+    fieldMeta[field] = { revision, updatedAt: changedAt };
+    applied = true;
+  }
+
+  if (!applied) {
+    return null;
+  }
+
+  return {
+    data: JSON.stringify(data),
+    fieldMeta: JSON.stringify(fieldMeta),
+    deleted: false,
+  };
+}
+
+// Highest revision handed out to the user's records. Records are never
+// deleted, only marked as deleted, so it only ever goes up.
+async function getLatestRevision(userId: string) {
+  const [{ revision }] = await db.$queryRaw<[{ revision: number }]>`
+    SELECT COALESCE(MAX(revision), 0) AS revision
+    FROM SyncRecord
+    WHERE userId = ${userId}
+  `;
+  return Number(revision);
+}
+
+async function applyChange(
+  userId: string,
+  change: SyncChange,
+  conflicts: SyncConflict[],
+) {
+  // Clients can't push changes from the future to win every conflict
+  const changedAt = Math.min(Date.parse(change.changedAt), Date.now());
+
+  // Another client may write the same record, or take the next revision,
+  // between the reads and the write, in which case the merge is redone
+  // against the new state
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const existing = await db.syncRecord.findUnique({
+      where: {
+        userId_collection_key: {
+          userId,
+          collection: change.collection,
+          key: change.key,
+        },
+      },
+    });
+    const latestRevision = await getLatestRevision(userId);
+    const revision = latestRevision + 1;
+    const attemptConflicts: SyncConflict[] = [];
+    const merged = mergeChange(
+      existing,
+      change,
+      revision,
+      changedAt,
+      attemptConflicts,
+    );
+
+    if (!merged) {
+      conflicts.push(...attemptConflicts);
+      return;
+    }
+
+    const updatedAt = new Date(
+      Math.max(existing?.updatedAt.getTime() ?? 0, changedAt),
+    );
+
+    // The next revision is taken by the same statement that writes the
+    // record, and only if it is still the next one and the record is still
+    // the one that was merged into. D1 runs statements one at a time, so
+    // records appear in revision order and a pull can't move its cursor past
+    // a revision whose record isn't written yet. `$transaction` can't give
+    // that guarantee, as the D1 adapter runs its queries one by one.
+    const written = await db.$executeRaw`
+      INSERT INTO SyncRecord
+        (id, userId, collection, key, data, fieldMeta, revision, deleted, updatedAt)
+      SELECT ${crypto.randomUUID()}, ${userId}, ${change.collection},
+        ${change.key}, ${merged.data}, ${merged.fieldMeta}, ${revision},
+        ${merged.deleted}, ${updatedAt}
+      WHERE (
+        SELECT COALESCE(MAX(revision), 0) FROM SyncRecord WHERE userId = ${userId}
+      ) = ${latestRevision}
+      ON CONFLICT (userId, collection, key) DO UPDATE SET
+        data = excluded.data,
+        fieldMeta = excluded.fieldMeta,
+        revision = excluded.revision,
+        deleted = excluded.deleted,
+        updatedAt = excluded.updatedAt
+      WHERE SyncRecord.revision = ${existing?.revision ?? null}
+    `;
+
+    if (written > 0) {
+      conflicts.push(...attemptConflicts);
+      return;
+    }
+  }
+
+  throw new Error(
+    `Could not apply sync change to ${change.collection}/${change.key}`,
+  );
+}
+
+export async function pushChanges(userId: string, changes: SyncChange[]) {
+  const conflicts: SyncConflict[] = [];
+
+  // In order, so later changes to the same record build on earlier ones
+  for (const change of changes) {
+    await applyChange(userId, change, conflicts);
+  }
+
+  return conflicts;
+}
+
+export async function pullChanges(userId: string, cursor: number) {
+  const records = await db.syncRecord.findMany({
+    where: { userId, revision: { gt: cursor } },
+    orderBy: { revision: "asc" },
+    take: MAX_PULL_SIZE + 1,
+  });
+  const page = records.slice(0, MAX_PULL_SIZE);
+
+  return {
+    records: page,
+    cursor: page.length > 0 ? page[page.length - 1].revision : cursor,
+    hasMore: records.length > MAX_PULL_SIZE,
+  };
+}
@@ -0,0 +1,31 @@
+import { route } from "rwsdk/router";
+import { requireMethod } from "@/app/interruptors";
+import { db } from "@/db";
+
+// Identifies this worker to clients checking an API URL
+export const SERVICE_NAME = "rwsdk-standard";
+
+// Lets the extension check that a configured edge API URL points at this
+// worker (see `extension/src/shared/api-access.ts`), and uptime monitors
+// check that it can reach its database. Needs no authentication.
+export const healthApiRoutes = [
+  route("/", [
+    requireMethod("GET"),
+    async () => {
+      try {
+        await db.$queryRaw`SELECT 1`;
+      } catch (error) {
+        console.error("Health check failed:", error);
+        return Response.json(
+          { status: "error", service: SERVICE_NAME, database: "unreachable" },
+          { status: 503, headers: { "Cache-Control": "no-store" } },
+        );
+      }
+
+      return Response.json(
+        { status: "ok", service: SERVICE_NAME, database: "ok" },
+        { headers: { "Cache-Control": "no-store" } },
+      );
+    },
+  ]),
+];
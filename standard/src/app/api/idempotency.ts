@@ -0,0 +1,115 @@
+import type { RequestInfo } from "rwsdk/worker";
+import { db } from "@/db";
+import { Prisma } from "@generated/prisma";
+import { jsonError } from "./responses";
+
+// Requests sent with an `Idempotency-Key` header, as the extension's outbox
+// does (see `extension/src/shared/outbox.ts`), are handled once per user and
+// key. Sending the same request again, e.g. after its response was lost, gets
+// the stored response back instead of being applied twice.
+
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+const MAX_KEY_LENGTH = 64;
+// As long as the outbox keeps retrying a request
+const KEY_LIFETIME = 7 * 24 * 60 * 60 * 1000; // 7 days
+// A request still unanswered after this long is assumed to have died with its
+// worker, and may be handled again
+const IN_PROGRESS_TIMEOUT = 60 * 1000; // 1 minute
+
+const isUniqueConstraintError = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+export const idempotent =
+  (handler: (requestInfo: RequestInfo) => Promise<Response>) =>
+  async (requestInfo: RequestInfo) => {
+    const { request, ctx } = requestInfo;
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+
+    if (key === null || !ctx.user) {
+      return handler(requestInfo);
+    }
+
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      return jsonError(
+        400,
+        "invalid_idempotency_key",
+        `${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    const userId = ctx.user.id;
+    const endpoint = `${request.method} ${new URL(request.url).pathname}`;
+    const where = { userId_key: { userId, key } };
+    const now = Date.now();
+
+    await db.idempotentRequest.deleteMany({
+      where: {
+        userId,
+        OR: [
+          { createdAt: { lt: new Date(now - KEY_LIFETIME) } },
+          {
+            status: null,
+            createdAt: { lt: new Date(now - IN_PROGRESS_TIMEOUT) },
+          },
+        ],
+      },
+    });
+
+    // Claims the key before handling the request, so that two attempts racing
+    // each other aren't both applied
+    try {
+      await db.idempotentRequest.create({ data: { userId, key, endpoint } });
+    } catch (error) {
+      if (!isUniqueConstraintError(error)) {
+        throw error;
+      }
+
+      const stored = await db.idempotentRequest.findUnique({ where });
+
+      if (stored && stored.endpoint !== endpoint) {
+        return jsonError(
+          422,
+          "idempotency_key_reused",
+          `${IDEMPOTENCY_KEY_HEADER} was already used for ${stored.endpoint}`,
+        );
+      }
+
+      if (!stored || stored.status === null || stored.body === null) {
+        return jsonError(
+          409,
+          "request_in_progress",
+          `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being handled`,
+        );
+      }
+
+      return new Response(stored.body, {
+        status: stored.status,
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotent-Replayed": "true",
+        },
+      });
+    }
+
+    let response: Response;
+
+    try {
+      response = await handler(requestInfo);
+    } catch (error) {
+      await db.idempotentRequest.delete({ where });
+      throw error;
+    }
+
+    // Server errors may go away, so the request can be sent again
+    if (response.status >= 500) {
+      await db.idempotentRequest.delete({ where });
+      return response;
+    }
+
+    await db.idempotentRequest.update({
+      where,
+      data: { status: response.status, body: await response.clone().text() },
+    });
+    return response;
+  };
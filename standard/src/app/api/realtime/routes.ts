@@ -0,0 +1,48 @@
+import { route } from "rwsdk/router";
+import { tokens } from "@/session/tokens";
+import { getSessionStub } from "@/session/store";
+import { connect } from "@/realtime/events";
+import { requireApiUser, requireMethod } from "@/app/interruptors";
+import { jsonError } from "../responses";
+
+export const realtimeApiRoutes = [
+  route("/", [
+    requireMethod("GET"),
+    async ({ request }) => {
+      if (request.headers.get("Upgrade") !== "websocket") {
+        return jsonError(
+          426,
+          "upgrade_required",
+          "Expected a WebSocket upgrade",
+        );
+      }
+
+      const ticket = new URL(request.url).searchParams.get("ticket");
+      const owner = ticket ? await tokens.verifyRealtimeTicket(ticket) : null;
+
+      if (!owner) {
+        return jsonError(401, "invalid_ticket", "Invalid or expired ticket");
+      }
+
+      // The session may have been revoked since the ticket was issued
+      const result = await getSessionStub(owner.sessionId).getSession();
+
+      if ("error" in result || result.value.userId !== owner.userId) {
+        return jsonError(401, "invalid_ticket", "Invalid or expired ticket");
+      }
+
+      return connect(request, owner.userId, owner.sessionId);
+    },
+  ]),
+  // Browsers can't set headers on a WebSocket, so clients trade their cookie
+  // or bearer token for a short-lived ticket to pass in the URL
+  route("/ticket", [
+    requireMethod("POST"),
+    requireApiUser,
+    async ({ ctx }) =>
+      Response.json({
+        ...(await tokens.issueRealtimeTicket(ctx.session!)),
+        sessionId: ctx.session!.id,
+      }),
+  ]),
+];
@@ -0,0 +1,41 @@
+import type { User, UserSession } from "@/db";
+import { describeDevice } from "@/session/registry";
+
+// Every JSON API error has the same shape so that clients (the extension in
+// particular) can branch on `error` and show `message` to the user.
+export interface ApiError {
+  error: string;
+  message: string;
+}
+
+export const jsonError = (
+  status: number,
+  error: string,
+  message: string,
+  init: ResponseInit = {},
+) => Response.json({ error, message } satisfies ApiError, { ...init, status });
+
+export const readJson = async <T>(request: Request): Promise<T | null> => {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    return null;
+  }
+};
+
+export const toPublicUser = (user: User) => ({
+  id: user.id,
+  username: user.username,
+  createdAt: user.createdAt,
+});
+
+export const toPublicSession = (session: UserSession, currentId?: string) => ({
+  id: session.id,
+  platform: session.platform,
+  device: describeDevice(session.userAgent),
+  userAgent: session.userAgent,
+  country: session.country,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  current: session.id === currentId,
+});
@@ -0,0 +1,51 @@
+import { route } from "rwsdk/router";
+import { sessionRegistry } from "@/session/registry";
+import { SENSITIVE_ACTION_MAX_AGE } from "@/app/shared/reauthentication";
+import {
+  requireApiRecentAuth,
+  requireApiUser,
+  requireMethod,
+} from "@/app/interruptors";
+import { jsonError, toPublicSession } from "../responses";
+
+export const sessionApiRoutes = [
+  route("/", [
+    requireMethod("GET", "DELETE"),
+    requireApiUser,
+    async ({ request, ctx }) => {
+      if (request.method !== "GET") {
+        return;
+      }
+
+      const sessions = await sessionRegistry.list(ctx.user!.id);
+
+      return Response.json({
+        sessions: sessions.map((session) =>
+          toPublicSession(session, ctx.session!.id),
+        ),
+      });
+    },
+    // `DELETE /api/sessions` signs out everywhere except the current session
+    requireApiRecentAuth(SENSITIVE_ACTION_MAX_AGE),
+    async ({ ctx }) => {
+      const revoked = await sessionRegistry.revokeOthers(
+        ctx.user!.id,
+        ctx.session!.id,
+      );
+      return Response.json({ revoked });
+    },
+  ]),
+  route("/:id", [
+    requireMethod("DELETE"),
+    requireApiUser,
+    async ({ params, ctx }) => {
+      const revoked = await sessionRegistry.revoke(ctx.user!.id, params.id);
+
+      if (!revoked) {
+        return jsonError(404, "session_not_found", "No such session");
+      }
+
+      return new Response(null, { status: 204 });
+    },
+  ]),
+];
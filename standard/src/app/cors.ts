@@ -0,0 +1,83 @@
+import { RouteMiddleware } from "rwsdk/router";
+import { env } from "cloudflare:workers";
+import { jsonError } from "@/app/api/responses";
+import {
+  getAllowedExtensionIds,
+  isAllowedExtension,
+} from "@/app/pages/auth/handoff";
+
+// Cross-origin access to `/api/*`. The extension calls the API from its
+// `chrome-extension://<id>` origin with credentials, so only the extensions in
+// `ALLOWED_EXTENSION_IDS` and the web origins in `ALLOWED_WEB_ORIGINS` get CORS
+// headers. Requests from any other origin are refused with
+// `403 origin_not_allowed` before they reach a route. The dev server allows any
+// extension while `ALLOWED_EXTENSION_IDS` is unset (see `isAllowedExtension`).
+
+const ALLOWED_METHODS = "GET, POST, PUT, PATCH, DELETE, OPTIONS";
+const ALLOWED_HEADERS =
+  "Authorization, Content-Type, If-None-Match, Idempotency-Key";
+// Token and session headers the extension reads (see `src/worker.tsx`), and
+// the ETag of `/api/extension/config`
+const EXPOSED_HEADERS =
+  "X-Access-Token, X-Refresh-Token, X-Token-Expires-At, X-Session-Expires-At, ETag";
+const PREFLIGHT_MAX_AGE = 60 * 60 * 24; // 1 day
+
+export function getAllowedWebOrigins() {
+  return env.ALLOWED_WEB_ORIGINS.split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+}
+
+export function isAllowedOrigin(origin: string) {
+  if (origin.startsWith("chrome-extension://")) {
+    return isAllowedExtension(origin.slice("chrome-extension://".length));
+  }
+
+  return getAllowedWebOrigins().includes(origin);
+}
+
+export const cors =
+  (): RouteMiddleware =>
+  ({ request, headers }) => {
+    const url = new URL(request.url);
+    const origin = request.headers.get("Origin");
+
+    // Same-origin requests (from the web app) and clients that aren't
+    // browsers don't need CORS
+    if (!url.pathname.startsWith("/api/") || !origin || origin === url.origin) {
+      return;
+    }
+
+    headers.set("Vary", "Origin");
+
+    if (!isAllowedOrigin(origin)) {
+      const unconfigured =
+        origin.startsWith("chrome-extension://") &&
+        getAllowedExtensionIds().length === 0;
+
+      return jsonError(
+        403,
+        "origin_not_allowed",
+        unconfigured
+          ? `ALLOWED_EXTENSION_IDS is not set on this worker, so no extension can call this API. Add ${origin.slice("chrome-extension://".length)} to it in wrangler.jsonc.`
+          : `${origin} is not allowed to call this API. Add it to ALLOWED_EXTENSION_IDS or ALLOWED_WEB_ORIGINS.`,
+        { headers },
+      );
+    }
+
+    headers.set("Access-Control-Allow-Origin", origin);
+    headers.set("Access-Control-Allow-Credentials", "true");
+
+    if (
+      request.method === "OPTIONS" &&
+      request.headers.has("Access-Control-Request-Method")
+    ) {
+      headers.set("Access-Control-Allow-Methods", ALLOWED_METHODS);
+      headers.set("Access-Control-Allow-Headers", ALLOWED_HEADERS);
+      headers.set("Access-Control-Max-Age", String(PREFLIGHT_MAX_AGE));
+
+      return new Response(null, { status: 204, headers });
+    }
+
+    headers.set("Access-Control-Expose-Headers", EXPOSED_HEADERS);
+  };
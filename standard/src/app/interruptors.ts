@@ -0,0 +1,55 @@
+import { RequestInfo, requestInfo } from "rwsdk/worker";
+import { jsonError } from "@/app/api/responses";
+import { link } from "@/app/shared/links";
+import {
+  REAUTHENTICATION_REQUIRED,
+  reauthenticationRequired,
+  isRecentlyAuthenticated,
+} from "@/app/shared/reauthentication";
+
+export const requireMethod =
+  (...methods: string[]) =>
+  ({ request }: RequestInfo) => {
+    if (!methods.includes(request.method)) {
+      return jsonError(
+        405,
+        "method_not_allowed",
+        `Expected ${methods.join(" or ")}`,
+        { headers: { Allow: methods.join(", ") } },
+      );
+    }
+  };
+
+export const requireUser = ({ ctx }: RequestInfo) => {
+  if (!ctx.user) {
+    return new Response(null, {
+      status: 302,
+      headers: { Location: link("/user/login") },
+    });
+  }
+};
+
+export const requireApiUser = ({ ctx }: RequestInfo) => {
+  if (!ctx.user) {
+    return jsonError(401, "unauthenticated", "Authentication required");
+  }
+};
+
+// For server functions: returns `ReauthenticationRequired` unless the user
+// verified a passkey within the last `maxAgeSeconds`
+export const requireRecentAuth = (maxAgeSeconds: number) =>
+  isRecentlyAuthenticated(requestInfo.ctx.session, maxAgeSeconds)
+    ? null
+    : reauthenticationRequired(maxAgeSeconds);
+
+export const requireApiRecentAuth =
+  (maxAgeSeconds: number) =>
+  ({ ctx }: RequestInfo) => {
+    if (!isRecentlyAuthenticated(ctx.session, maxAgeSeconds)) {
+      return jsonError(
+        403,
+        REAUTHENTICATION_REQUIRED,
+        "Confirm it's you with your passkey to continue",
+      );
+    }
+  };
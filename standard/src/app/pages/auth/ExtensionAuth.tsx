@@ -0,0 +1,87 @@
+import { RequestInfo } from "rwsdk/worker";
+import { env } from "cloudflare:workers";
+import { Login } from "@/app/pages/user/Login";
+import { ExtensionConsent } from "./ExtensionConsent";
+import { ExtensionReauthConsent } from "./ExtensionReauthConsent";
+
+export function ExtensionAuth({ ctx, request }: RequestInfo) {
+  const url = new URL(request.url);
+  const extensionId = url.searchParams.get("extensionId")!;
+
+  if (!ctx.user) {
+    return (
+      <div>
+        <p>Log in to connect {env.EXTENSION_NAME} to your account.</p>
+        <Login redirectTo={url.pathname + url.search} />
+      </div>
+    );
+  }
+
+  return (
+    <ExtensionConsent
+      extensionId={extensionId}
+      extensionName={env.EXTENSION_NAME}
+      username={ctx.user.username}
+    />
+  );
+}
+
+// Step-up for a signed in extension (see `ReauthenticationRequiredError` in
+// the extension): the user verifies a passkey here, on the app's origin
+export function ExtensionReauth({ ctx, request }: RequestInfo) {
+  const url = new URL(request.url);
+  const extensionId = url.searchParams.get("extensionId")!;
+
+  if (!ctx.user) {
+    return (
+      <div>
+        <p>Log in to confirm it's you in {env.EXTENSION_NAME}.</p>
+        <Login redirectTo={url.pathname + url.search} />
+      </div>
+    );
+  }
+
+  return (
+    <ExtensionReauthConsent
+      extensionId={extensionId}
+      extensionName={env.EXTENSION_NAME}
+      username={ctx.user.username}
+    />
+  );
+}
+
+export function ExtensionAuthSuccess({ request }: RequestInfo) {
+  const reauthenticated = new URL(request.url).searchParams.has(
+    "reauthenticated",
+  );
+
+  return (
+    <div>
+      <p>
+        {reauthenticated
+          ? `You can go back to ${env.EXTENSION_NAME} and try again.`
+          : `${env.EXTENSION_NAME} is now signed in.`}{" "}
+        You can close this tab.
+      </p>
+    </div>
+  );
+}
+
+const errorMessages: Record<string, string> = {
+  denied: "You denied access to the extension.",
+  unknown_extension: "This extension is not allowed to sign in.",
+  not_allowed: "The extension could not be authorized.",
+  reauthentication_failed: "Your passkey could not be verified.",
+  extension_unreachable:
+    "The extension could not be reached. Make sure it is installed and enabled.",
+};
+
+export function ExtensionAuthError({ request }: RequestInfo) {
+  const reason = new URL(request.url).searchParams.get("reason") ?? "";
+
+  return (
+    <div>
+      <p>{errorMessages[reason] ?? "Signing in to the extension failed."}</p>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useTransition } from "react";
+import { link } from "@/app/shared/links";
+import { approveExtension } from "./functions";
+
+interface ChromeRuntime {
+  lastError?: { message?: string };
+  sendMessage(
+    extensionId: string,
+    message: unknown,
+    callback: (response?: { success?: boolean; error?: string }) => void,
+  ): void;
+}
+
+// `chrome.runtime` is only exposed to pages matched by the extension's
+// `externally_connectable` manifest entry
+const getChromeRuntime = () =>
+  (globalThis as { chrome?: { runtime?: ChromeRuntime } }).chrome?.runtime;
+
+export type ExtensionMessage =
+  | { type: "AUTH_HANDOFF"; code: string }
+  | { type: "REAUTH_HANDOFF"; code: string };
+
+export const sendToExtension = (
+  extensionId: string,
+  message: ExtensionMessage,
+) =>
+  new Promise<void>((resolve, reject) => {
+    const runtime = getChromeRuntime();
+
+    if (!runtime?.sendMessage) {
+      reject(new Error("extension_unreachable"));
+      return;
+    }
+
+    runtime.sendMessage(extensionId, message, (response) => {
+      if (runtime.lastError || !response?.success) {
+        reject(new Error(response?.error ?? "extension_unreachable"));
+      } else {
+        resolve();
+      }
+    });
+  });
+
+export function ExtensionConsent({
+  extensionId,
+  extensionName,
+  username,
+}: {
+  extensionId: string;
+  extensionName: string;
+  username: string;
+}) {
+  const [isPending, startTransition] = useTransition();
+
+  const redirectToError = (reason: string) => {
+    window.location.href = `${link("/auth/extension/error")}?reason=${encodeURIComponent(reason)}`;
+  };
+
+  const approve = async () => {
+    // 1. Get a one-time code for the extension from the worker
+    const code = await approveExtension(extensionId);
+
+    if (!code) {
+      redirectToError("not_allowed");
+      return;
+    }
+
+    // 2. Hand the code to the extension, which exchanges it for tokens
+    try {
+      await sendToExtension(extensionId, { type: "AUTH_HANDOFF", code });
+    } catch (error) {
+      redirectToError(
+        error instanceof Error ? error.message : "extension_unreachable",
+      );
+      return;
+    }
+
+    window.location.href = link("/auth/extension/success");
+  };
+
+  const handleApprove = () => {
+    startTransition(() => void approve());
+  };
+
+  const handleDeny = () => {
+    redirectToError("denied");
+  };
+
+  return (
+    <>
+      <p>
+        <strong>{extensionName}</strong> wants to sign in to your account{" "}
+        <strong>{username}</strong>.
+      </p>
+      <p>
+        <small>Extension ID: {extensionId}</small>
+      </p>
+      <button onClick={handleApprove} disabled={isPending}>
+        {isPending ? <>...</> : "Allow"}
+      </button>
+      <button onClick={handleDeny} disabled={isPending}>
+        Deny
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useTransition } from "react";
+import { link } from "@/app/shared/links";
+import { withReauthentication } from "@/app/pages/user/withReauthentication";
+import { approveExtensionReauthentication } from "./functions";
+import { sendToExtension } from "./ExtensionConsent";
+
+export function ExtensionReauthConsent({
+  extensionId,
+  extensionName,
+  username,
+}: {
+  extensionId: string;
+  extensionName: string;
+  username: string;
+}) {
+  const [isPending, startTransition] = useTransition();
+
+  const redirectToError = (reason: string) => {
+    window.location.href = `${link("/auth/extension/error")}?reason=${encodeURIComponent(reason)}`;
+  };
+
+  const confirm = async () => {
+    // 1. Verify a passkey here, then get a one-time code for the extension
+    const code = await withReauthentication(() =>
+      approveExtensionReauthentication(extensionId),
+    );
+
+    if (!code) {
+      redirectToError("reauthentication_failed");
+      return;
+    }
+
+    // 2. Hand the code to the extension, which redeems it for its session
+    try {
+      await sendToExtension(extensionId, { type: "REAUTH_HANDOFF", code });
+    } catch (error) {
+      redirectToError(
+        error instanceof Error ? error.message : "extension_unreachable",
+      );
+      return;
+    }
+
+    window.location.href = `${link("/auth/extension/success")}?reauthenticated`;
+  };
+
+  const handleConfirm = () => {
+    startTransition(() => void confirm());
+  };
+
+  return (
+    <>
+      <p>
+        <strong>{extensionName}</strong> needs you to confirm it's you, signed
+        in as <strong>{username}</strong>, before it continues.
+      </p>
+      <button onClick={handleConfirm} disabled={isPending}>
+        {isPending ? <>...</> : "Confirm with passkey"}
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+"use server";
+
+import { requestInfo } from "rwsdk/worker";
+import { requireRecentAuth } from "@/app/interruptors";
+import { SENSITIVE_ACTION_MAX_AGE } from "@/app/shared/reauthentication";
+import { createHandoffCode, isAllowedExtension } from "./handoff";
+
+export async function approveExtension(extensionId: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user || !isAllowedExtension(extensionId)) {
+    return null;
+  }
+
+  return createHandoffCode(ctx.user.id, extensionId);
+}
+
+// Only once the user verified a passkey in this browser, so the extension's
+// session can borrow the step-up
+export async function approveExtensionReauthentication(extensionId: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user || !isAllowedExtension(extensionId)) {
+    return null;
+  }
+
+  const stepUp = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE);
+
+  if (stepUp) {
+    return stepUp;
+  }
+
+  return createHandoffCode(ctx.user.id, extensionId, "reauthenticate");
+}
@@ -0,0 +1,104 @@
+import { db } from "@/db";
+import { env } from "cloudflare:workers";
+
+// One-time codes used to hand a web session over to the extension. The page at
+// `/auth/extension` passes the code to the extension with
+// `chrome.runtime.sendMessage`, and the extension's service worker exchanges
+// it for bearer tokens at `/api/auth/extension/token`.
+//
+// The page at `/auth/extension/reauthenticate` hands over codes the same way
+// after a passkey step-up. The extension redeems those at
+// `/api/auth/extension/reauthenticate` to mark its own session as recently
+// authenticated, as passkeys can't be used from the extension's origin.
+
+// A code only works for what it was issued for, so a step-up can't be turned
+// into a sign-in and the other way around
+export type HandoffPurpose = "sign_in" | "reauthenticate";
+
+const HANDOFF_CODE_TTL = 60 * 1000; // 1 minute
+
+// Left in `wrangler.jsonc` until the extension's ID is filled in
+const EXTENSION_IDS_PLACEHOLDER = "__change_me__";
+
+// Chrome extension IDs are 32 letters from a to p
+const EXTENSION_ID_PATTERN = /^[a-p]{32}$/;
+
+export function getAllowedExtensionIds() {
+  return env.ALLOWED_EXTENSION_IDS.split(",")
+    .map((id) => id.trim())
+    .filter((id) => id && id !== EXTENSION_IDS_PLACEHOLDER);
+}
+
+export function isAllowedExtension(extensionId: string | null | undefined) {
+  if (!extensionId) {
+    return false;
+  }
+
+  const allowed = getAllowedExtensionIds();
+
+  // An unpacked extension gets a new ID on every machine, so the dev server
+  // allows any extension until `ALLOWED_EXTENSION_IDS` is set
+  if (allowed.length === 0 && import.meta.env.VITE_IS_DEV_SERVER) {
+    return EXTENSION_ID_PATTERN.test(extensionId);
+  }
+
+  return allowed.includes(extensionId);
+}
+
+async function hashCode(code: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(code),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function createHandoffCode(
+  userId: string,
+  extensionId: string,
+  purpose: HandoffPurpose = "sign_in",
+) {
+  const code = Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+  await db.extensionAuthCode.create({
+    data: {
+      codeHash: await hashCode(code),
+      extensionId,
+      purpose,
+      userId,
+      expiresAt: new Date(Date.now() + HANDOFF_CODE_TTL),
+    },
+  });
+
+  return code;
+}
+
+// Returns the user the code was issued to, or `null` if the code is unknown,
+// expired, already used or was issued for another extension or purpose
+export async function consumeHandoffCode(
+  code: string,
+  extensionId: string,
+  purpose: HandoffPurpose = "sign_in",
+) {
+  const codeHash = await hashCode(code);
+
+  // Deleting up front makes the code single-use even under concurrent requests
+  const authCode = await db.extensionAuthCode
+    .delete({ where: { codeHash } })
+    .catch(() => null);
+
+  if (
+    !authCode ||
+    authCode.extensionId !== extensionId ||
+    authCode.purpose !== purpose ||
+    authCode.expiresAt.getTime() < Date.now()
+  ) {
+    return null;
+  }
+
+  return authCode.userId;
+}
@@ -0,0 +1,33 @@
+import { route } from "rwsdk/router";
+import { RequestInfo } from "rwsdk/worker";
+import { link } from "@/app/shared/links";
+import { isAllowedExtension } from "./handoff";
+import {
+  ExtensionAuth,
+  ExtensionAuthError,
+  ExtensionAuthSuccess,
+  ExtensionReauth,
+} from "./ExtensionAuth";
+
+const requireAllowedExtension = ({ request }: RequestInfo) => {
+  const extensionId = new URL(request.url).searchParams.get("extensionId");
+
+  if (!isAllowedExtension(extensionId)) {
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `${link("/auth/extension/error")}?reason=unknown_extension`,
+      },
+    });
+  }
+};
+
+export const authRoutes = [
+  route("/extension", [requireAllowedExtension, ExtensionAuth]),
+  route("/extension/reauthenticate", [
+    requireAllowedExtension,
+    ExtensionReauth,
+  ]),
+  route("/extension/success", ExtensionAuthSuccess),
+  route("/extension/error", ExtensionAuthError),
+];
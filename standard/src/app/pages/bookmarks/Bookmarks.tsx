@@ -0,0 +1,74 @@
+import { RequestInfo } from "rwsdk/worker";
+import { searchBookmarks } from "@/app/api/bookmarks/bookmarks";
+import { link } from "@/app/shared/links";
+
+const formatDate = (date: Date) =>
+  date.toLocaleString("en-US", { timeZone: "UTC" }) + " UTC";
+
+const tagLink = (tag: string) =>
+  `${link("/bookmarks")}?tag=${encodeURIComponent(tag)}`;
+
+export async function Bookmarks({ request, ctx }: RequestInfo) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q")?.trim() || null;
+  const tag = searchParams.get("tag")?.trim() || null;
+  const bookmarks = await searchBookmarks(ctx.user!.id, { query, tag });
+
+  return (
+    <div>
+      <h1>Bookmarks</h1>
+      <p>
+        Pages saved with the extension's <strong>Save this page</strong> button
+        or context menu.
+      </p>
+      <form method="get" action={link("/bookmarks")}>
+        <input
+          type="search"
+          name="q"
+          defaultValue={query ?? ""}
+          placeholder="Search titles, URLs and notes"
+        />
+        {tag && <input type="hidden" name="tag" value={tag} />}
+        <button type="submit">Search</button>
+        {(query || tag) && <a href={link("/bookmarks")}>Clear</a>}
+      </form>
+      {tag && (
+        <p>
+          Tagged <strong>{tag}</strong>
+        </p>
+      )}
+      {bookmarks.length === 0 ? (
+        <p>{query || tag ? "No matching bookmarks." : "No bookmarks yet."}</p>
+      ) : (
+        <ul>
+          {bookmarks.map((bookmark) => {
+            const tags = JSON.parse(bookmark.tags) as string[];
+
+            return (
+              <li key={bookmark.id}>
+                <a href={bookmark.url} rel="noopener noreferrer">
+                  {bookmark.title}
+                </a>{" "}
+                <small>{new URL(bookmark.url).hostname}</small>
+                {bookmark.description && <p>{bookmark.description}</p>}
+                {bookmark.notes && (
+                  <p>
+                    <em>{bookmark.notes}</em>
+                  </p>
+                )}
+                <p>
+                  {tags.map((tag) => (
+                    <a key={tag} href={tagLink(tag)}>
+                      #{tag}{" "}
+                    </a>
+                  ))}
+                  <small>Saved {formatDate(bookmark.createdAt)}</small>
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { RequestInfo } from "rwsdk/worker";
+import { listEvents } from "@/app/api/events/events";
+import { link } from "@/app/shared/links";
+
+const formatDate = (date: Date) =>
+  date.toLocaleString("en-US", { timeZone: "UTC" }) + " UTC";
+
+// Compact `key: value` summary of an event's data
+const describeData = (data: string) =>
+  Object.entries(JSON.parse(data) as Record<string, unknown>)
+    .filter(([key]) => key !== "url")
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(", ");
+
+export async function Events({ request, ctx }: RequestInfo) {
+  const beforeParam = new URL(request.url).searchParams.get("before");
+  const before = beforeParam ? new Date(beforeParam) : undefined;
+  const { events, before: olderBefore } = await listEvents(
+    ctx.user!.id,
+    before && !Number.isNaN(before.getTime()) ? before : undefined,
+  );
+
+  return (
+    <div>
+      <h1>Activity</h1>
+      <p>
+        Events the extension recorded for <strong>{ctx.user!.username}</strong>,
+        newest first. Tracking can be turned off in the extension's options.
+      </p>
+      {events.length === 0 ? (
+        <p>No events yet.</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Event</th>
+              <th>Page</th>
+              <th>Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((event) => (
+              <tr key={event.id}>
+                <td>{formatDate(event.occurredAt)}</td>
+                <td>{event.type}</td>
+                <td title={event.url ?? undefined}>
+                  {event.url ? new URL(event.url).hostname : "—"}
+                </td>
+                <td>{describeData(event.data)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p>
+        {before && <a href={link("/user/events")}>Newest events</a>}{" "}
+        {olderBefore && (
+          <a
+            href={`${link("/user/events")}?before=${encodeURIComponent(olderBefore.toISOString())}`}
+          >
+            Older events
+          </a>
+        )}
+      </p>
+      <p>
+        <a href={link("/user/security")}>Account security</a>
+      </p>
+    </div>
+  );
+}
@@ -1,51 +1,219 @@
 "use client";
 
-import { useState, useTransition } from "react";
+import { useEffect, useState, useTransition } from "react";
 import {
+  type AuthenticationResponseJSON,
+  WebAuthnAbortService,
+  browserSupportsWebAuthnAutofill,
   startAuthentication,
   startRegistration,
 } from "@simplewebauthn/browser";
 import {
+  checkUsernameAvailability,
   finishPasskeyLogin,
   finishPasskeyRegistration,
   startPasskeyLogin,
   startPasskeyRegistration,
 } from "./functions";
+import type { RegistrationErrorCode } from "./passkeys";
+import {
+  normalizeUsername,
+  usernameErrorMessages,
+  validateUsername,
+} from "./username";
+import { RecoveryCodesList } from "./RecoveryCodes";
+import { link } from "@/app/shared/links";
+
+const AVAILABILITY_CHECK_DELAY = 400; // ms
+
+const registrationErrorMessages: Record<RegistrationErrorCode, string> = {
+  ...usernameErrorMessages,
+  username_taken: "This username is already taken",
+  challenge_missing: "Your registration expired, please try again",
+  verification_failed: "Your passkey could not be verified",
+};
+
+type Availability =
+  | { status: "idle" }
+  | { status: "checking" }
+  | { status: "available" }
+  | { status: "unavailable"; message: string };
 
-export function Login() {
+export function Login({ redirectTo }: { redirectTo?: string }) {
   const [username, setUsername] = useState("");
+  const [availability, setAvailability] = useState<Availability>({
+    status: "idle",
+  });
   const [result, setResult] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  // Bumped to start a new autofill ceremony after another one has ended
+  const [autofillAttempt, setAutofillAttempt] = useState(0);
   const [isPending, startTransition] = useTransition();
 
-  const passkeyLogin = async () => {
-    // 1. Get a challenge from the worker
-    const options = await startPasskeyLogin();
-
-    // 2. Ask the browser to sign the challenge
-    const login = await startAuthentication({ optionsJSON: options });
-
-    // 3. Give the signed challenge to the worker to finish the login process
+  const completeLogin = async (login: AuthenticationResponseJSON) => {
+    // Give the signed challenge to the worker to finish the login process
     const success = await finishPasskeyLogin(login);
 
     if (!success) {
       setResult("Login failed");
+      setAutofillAttempt((attempt) => attempt + 1);
+    } else if (redirectTo) {
+      window.location.href = redirectTo;
     } else {
       setResult("Login successful!");
     }
   };
 
+  // Offer the user's passkeys in the username field's autofill (conditional
+  // mediation). Browsers without support keep the "Login with passkey" button.
+  useEffect(() => {
+    let cancelled = false;
+
+    const autofillLogin = async () => {
+      if (!(await browserSupportsWebAuthnAutofill())) {
+        return;
+      }
+
+      const options = await startPasskeyLogin();
+
+      if (cancelled) {
+        return;
+      }
+
+      let login: AuthenticationResponseJSON;
+      try {
+        login = await startAuthentication({
+          optionsJSON: options,
+          useBrowserAutofill: true,
+        });
+      } catch {
+        // Aborted when the user starts another ceremony, or the page unmounts
+        return;
+      }
+
+      await completeLogin(login);
+    };
+
+    void autofillLogin();
+
+    return () => {
+      cancelled = true;
+      WebAuthnAbortService.cancelCeremony();
+    };
+  }, [autofillAttempt]);
+
+  // Check the username as the user types: the format locally right away, and
+  // availability on the worker once they stop typing
+  useEffect(() => {
+    const normalized = normalizeUsername(username);
+
+    if (!normalized) {
+      setAvailability({ status: "idle" });
+      return;
+    }
+
+    const invalid = validateUsername(normalized);
+
+    if (invalid) {
+      setAvailability({
+        status: "unavailable",
+        message: usernameErrorMessages[invalid],
+      });
+      return;
+    }
+
+    let cancelled = false;
+    setAvailability({ status: "checking" });
+
+    const timeout = setTimeout(async () => {
+      const check = await checkUsernameAvailability(normalized);
+
+      if (cancelled) {
+        return;
+      }
+
+      setAvailability(
+        "error" in check
+          ? {
+              status: "unavailable",
+              message: registrationErrorMessages[check.error],
+            }
+          : { status: "available" },
+      );
+    }, AVAILABILITY_CHECK_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [username]);
+
+  const passkeyLogin = async () => {
+    // Stop the pending autofill ceremony, its challenge is about to be replaced
+    WebAuthnAbortService.cancelCeremony();
+
+    // 1. Get a challenge from the worker
+    const options = await startPasskeyLogin();
+
+    // 2. Ask the browser to sign the challenge
+    let login: AuthenticationResponseJSON;
+    try {
+      login = await startAuthentication({ optionsJSON: options });
+    } catch {
+      setResult("Login was cancelled");
+      setAutofillAttempt((attempt) => attempt + 1);
+      return;
+    }
+
+    // 3. Give the signed challenge to the worker to finish the login process
+    await completeLogin(login);
+  };
+
   const passkeyRegister = async () => {
+    // Stop the pending autofill ceremony, its challenge is about to be replaced
+    WebAuthnAbortService.cancelCeremony();
+
     // 1. Get a challenge from the worker
     const options = await startPasskeyRegistration(username);
 
+    if ("error" in options) {
+      setResult(registrationErrorMessages[options.error]);
+      setAutofillAttempt((attempt) => attempt + 1);
+      return;
+    }
+
     // 2. Ask the browser to sign the challenge
-    const registration = await startRegistration({ optionsJSON: options });
+    let registration;
+    try {
+      registration = await startRegistration({ optionsJSON: options.value });
+    } catch (error) {
+      setResult(
+        error instanceof Error && error.name === "InvalidStateError"
+          ? "This authenticator already has a passkey for your account"
+          : "Registration was cancelled",
+      );
+      setAutofillAttempt((attempt) => attempt + 1);
+      return;
+    }
 
     // 3. Give the signed challenge to the worker to finish the registration process
-    const success = await finishPasskeyRegistration(username, registration);
+    const registered = await finishPasskeyRegistration(username, registration);
 
-    if (!success) {
-      setResult("Registration failed");
+    if ("error" in registered) {
+      setResult(registrationErrorMessages[registered.error]);
+      setAutofillAttempt((attempt) => attempt + 1);
+    } else {
+      // Continue once the user has saved their recovery codes
+      setResult("");
+      setRecoveryCodes(registered.value.recoveryCodes);
+    }
+  };
+
+  const handleRecoveryCodesSaved = () => {
+    setRecoveryCodes(null);
+
+    if (redirectTo) {
+      window.location.href = redirectTo;
     } else {
       setResult("Registration successful!");
     }
@@ -59,6 +227,15 @@ export function Login() {
     startTransition(() => void passkeyRegister());
   };
 
+  if (recoveryCodes) {
+    return (
+      <RecoveryCodesList
+        codes={recoveryCodes}
+        onSaved={handleRecoveryCodesSaved}
+      />
+    );
+  }
+
   return (
     <>
       <input
@@ -66,14 +243,29 @@ export function Login() {
         value={username}
         onChange={(e) => setUsername(e.target.value)}
         placeholder="Username"
+        // "webauthn" lets the browser list passkeys in the autofill
+        autoComplete="username webauthn"
       />
       <button onClick={handlePerformPasskeyLogin} disabled={isPending}>
         {isPending ? <>...</> : "Login with passkey"}
       </button>
-      <button onClick={handlePerformPasskeyRegister} disabled={isPending}>
+      {availability.status === "checking" && <div>Checking username...</div>}
+      {availability.status === "available" && (
+        <div>{normalizeUsername(username)} is available</div>
+      )}
+      {availability.status === "unavailable" && (
+        <div>{availability.message}</div>
+      )}
+      <button
+        onClick={handlePerformPasskeyRegister}
+        disabled={isPending || availability.status === "unavailable"}
+      >
         {isPending ? <>...</> : "Register with passkey"}
       </button>
       {result && <div>{result}</div>}
+      <p>
+        <a href={link("/user/recover")}>Lost your passkey?</a>
+      </p>
     </>
   );
 }
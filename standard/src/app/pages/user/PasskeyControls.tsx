@@ -0,0 +1,136 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { startRegistration } from "@simplewebauthn/browser";
+import {
+  deletePasskey,
+  finishAddPasskey,
+  renamePasskey,
+  startAddPasskey,
+} from "./functions";
+import { withReauthentication } from "./withReauthentication";
+
+export function AddPasskeyButton() {
+  const [name, setName] = useState("");
+  const [result, setResult] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const addPasskey = async () => {
+    // 1. Confirm it's the user, then get a challenge from the worker
+    const options = await withReauthentication(startAddPasskey);
+
+    if (!options) {
+      setResult("Confirm it's you with one of your passkeys to add another");
+      return;
+    }
+
+    // 2. Ask the browser to create a new passkey
+    let registration;
+    try {
+      registration = await startRegistration({ optionsJSON: options });
+    } catch (error) {
+      setResult(
+        error instanceof Error && error.name === "InvalidStateError"
+          ? "This authenticator already has a passkey for your account"
+          : "Adding the passkey was cancelled",
+      );
+      return;
+    }
+
+    // 3. Give the signed challenge to the worker to store the new passkey
+    const success = await finishAddPasskey(registration, name);
+
+    if (!success) {
+      setResult("Adding the passkey failed");
+    } else {
+      setName("");
+      setResult("Passkey added!");
+    }
+  };
+
+  const handleAddPasskey = () => {
+    startTransition(() => void addPasskey());
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Passkey name (optional)"
+        maxLength={64}
+      />
+      <button onClick={handleAddPasskey} disabled={isPending}>
+        {isPending ? <>...</> : "Add another passkey"}
+      </button>
+      {result && <div>{result}</div>}
+    </div>
+  );
+}
+
+export function RenamePasskeyForm({ id, name }: { id: string; name: string }) {
+  const [value, setValue] = useState(name);
+  const [isPending, startTransition] = useTransition();
+
+  const handleRename = () => {
+    startTransition(() => void renamePasskey(id, value));
+  };
+
+  return (
+    <>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="Unnamed passkey"
+        maxLength={64}
+      />
+      <button onClick={handleRename} disabled={isPending || value === name}>
+        {isPending ? <>...</> : "Rename"}
+      </button>
+    </>
+  );
+}
+
+export function DeletePasskeyButton({
+  id,
+  disabled,
+}: {
+  id: string;
+  disabled: boolean;
+}) {
+  const [result, setResult] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const removePasskey = async () => {
+    const success = await withReauthentication(() => deletePasskey(id));
+
+    if (success === null) {
+      setResult("Confirm it's you with one of your passkeys to remove one");
+    } else if (!success) {
+      setResult("You can't remove your only passkey");
+    }
+  };
+
+  const handleDelete = () => {
+    if (
+      !window.confirm(
+        "Remove this passkey? You won't be able to log in with it anymore.",
+      )
+    ) {
+      return;
+    }
+
+    startTransition(() => void removePasskey());
+  };
+
+  return (
+    <>
+      <button onClick={handleDelete} disabled={disabled || isPending}>
+        {isPending ? <>...</> : "Remove"}
+      </button>
+      {result && <div>{result}</div>}
+    </>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect } from "react";
+import type { RealtimeEvent } from "@/realtime/events";
+import { link } from "@/app/shared/links";
+
+// Web page client of `/api/realtime`: keeps a signed in page current when the
+// user's sessions or profile change in another tab or on another device, by
+// reloading it, and goes to the login page when its own session is revoked.
+// The extension has its own client in `extension/src/shared/realtime.ts`.
+
+// Matches `SESSION_REVOKED_CLOSE_CODE` in `src/realtime/events.ts`
+const SESSION_REVOKED_CLOSE_CODE = 4001;
+const HEARTBEAT_INTERVAL = 25 * 1000; // 25 seconds
+const INITIAL_RECONNECT_DELAY = 1000; // 1 second
+const MAX_RECONNECT_DELAY = 5 * 60 * 1000; // 5 minutes
+
+export function RealtimeUpdates() {
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectAttempts = 0;
+    let stopped = false;
+
+    const signedOut = () => window.location.assign(link("/user/login"));
+
+    const scheduleReconnect = () => {
+      if (stopped) {
+        return;
+      }
+
+      const delay = Math.min(
+        INITIAL_RECONNECT_DELAY * 2 ** reconnectAttempts,
+        MAX_RECONNECT_DELAY,
+      );
+      reconnectAttempts++;
+      reconnectTimer = setTimeout(
+        () => void connect(),
+        delay + Math.random() * delay * 0.2,
+      );
+    };
+
+    const connect = async () => {
+      let ticket: { ticket: string; sessionId: string };
+
+      // The page's session cookie pays for the ticket
+      try {
+        const response = await fetch("/api/realtime/ticket", {
+          method: "POST",
+        });
+
+        if (response.status === 401) {
+          signedOut();
+          return;
+        }
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        ticket = await response.json();
+      } catch (error) {
+        console.error("Realtime connection failed:", error);
+        scheduleReconnect();
+        return;
+      }
+
+      if (stopped) {
+        return;
+      }
+
+      const url = new URL("/api/realtime", window.location.href);
+      url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+      url.searchParams.set("ticket", ticket.ticket);
+
+      const current = new WebSocket(url);
+      socket = current;
+
+      current.onopen = () => {
+        reconnectAttempts = 0;
+        heartbeatTimer = setInterval(
+          () => current.send("ping"),
+          HEARTBEAT_INTERVAL,
+        );
+      };
+
+      current.onmessage = (message) => {
+        if (message.data === "pong") {
+          return;
+        }
+
+        const event = JSON.parse(message.data) as RealtimeEvent;
+
+        if (
+          event.type === "session.revoked" &&
+          event.sessionId === ticket.sessionId
+        ) {
+          signedOut();
+        } else if (
+          event.type === "session.revoked" ||
+          event.type === "user.updated"
+        ) {
+          window.location.reload();
+        }
+      };
+
+      current.onclose = (event) => {
+        clearInterval(heartbeatTimer);
+
+        if (socket !== current || stopped) {
+          return;
+        }
+
+        socket = null;
+
+        if (event.code === SESSION_REVOKED_CLOSE_CODE) {
+          signedOut();
+        } else {
+          scheduleReconnect();
+        }
+      };
+    };
+
+    void connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      clearInterval(heartbeatTimer);
+      socket?.close(1000);
+    };
+  }, []);
+
+  return null;
+}
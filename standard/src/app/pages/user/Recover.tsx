@@ -0,0 +1,124 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { startRegistration } from "@simplewebauthn/browser";
+import {
+  finishRecoveryPasskey,
+  startRecovery,
+  startRecoveryPasskey,
+} from "./functions";
+import { link } from "@/app/shared/links";
+
+export function Recover() {
+  const [username, setUsername] = useState("");
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+  const [result, setResult] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const redeemCode = async () => {
+    const recovery = await startRecovery(username, code);
+
+    if ("error" in recovery) {
+      setResult("That username and recovery code don't match");
+      return;
+    }
+
+    setResult("");
+    setCode("");
+    setRemainingCodes(recovery.value.remainingCodes);
+  };
+
+  const enrollPasskey = async () => {
+    // 1. Get a challenge from the worker
+    const options = await startRecoveryPasskey();
+
+    if (!options) {
+      setResult("Your recovery session expired, please use another code");
+      setRemainingCodes(null);
+      return;
+    }
+
+    // 2. Ask the browser to create a new passkey
+    let registration;
+    try {
+      registration = await startRegistration({ optionsJSON: options });
+    } catch {
+      setResult("Adding the passkey was cancelled");
+      return;
+    }
+
+    // 3. Give the signed challenge to the worker, which also logs the user in
+    const success = await finishRecoveryPasskey(registration, name);
+
+    if (!success) {
+      setResult("Adding the passkey failed");
+      return;
+    }
+
+    window.location.href = link("/user/security");
+  };
+
+  const handleRedeemCode = () => {
+    startTransition(() => void redeemCode());
+  };
+
+  const handleEnrollPasskey = () => {
+    startTransition(() => void enrollPasskey());
+  };
+
+  if (remainingCodes !== null) {
+    return (
+      <div>
+        <h1>Add a new passkey</h1>
+        <p>
+          Your recovery code was accepted. Add a passkey within the next 15
+          minutes to get back into your account.{" "}
+          {remainingCodes === 0
+            ? "That was your last recovery code, so generate new ones once you're in."
+            : `You have ${remainingCodes} recovery codes left.`}
+        </p>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Passkey name (optional)"
+          maxLength={64}
+        />
+        <button onClick={handleEnrollPasskey} disabled={isPending}>
+          {isPending ? <>...</> : "Add passkey"}
+        </button>
+        {result && <div>{result}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1>Recover your account</h1>
+      <p>Enter your username and one of the recovery codes you saved.</p>
+      <input
+        type="text"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        placeholder="Username"
+        autoComplete="username"
+      />
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="XXXXX-XXXXX"
+        autoComplete="one-time-code"
+      />
+      <button
+        onClick={handleRedeemCode}
+        disabled={isPending || !username || !code}
+      >
+        {isPending ? <>...</> : "Continue"}
+      </button>
+      {result && <div>{result}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { regenerateRecoveryCodes } from "./functions";
+import { withReauthentication } from "./withReauthentication";
+
+export function RecoveryCodesList({
+  codes,
+  onSaved,
+}: {
+  codes: string[];
+  onSaved?: () => void;
+}) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+  };
+
+  return (
+    <div>
+      <h2>Your recovery codes</h2>
+      <p>
+        If you lose your passkeys, each of these codes lets you back in once to
+        add a new one. Store them somewhere safe: they won't be shown again.
+      </p>
+      <ul>
+        {codes.map((code) => (
+          <li key={code}>
+            <code>{code}</code>
+          </li>
+        ))}
+      </ul>
+      <button onClick={handleCopy}>{copied ? "Copied!" : "Copy codes"}</button>
+      {onSaved && <button onClick={onSaved}>I've saved these codes</button>}
+    </div>
+  );
+}
+
+export function RegenerateRecoveryCodesButton() {
+  const [codes, setCodes] = useState<string[] | null>(null);
+  const [result, setResult] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const regenerate = async () => {
+    const generated = await withReauthentication(regenerateRecoveryCodes);
+
+    if (!generated) {
+      setResult("Confirm it's you with your passkey to get new codes");
+      return;
+    }
+
+    setResult("");
+    setCodes(generated);
+  };
+
+  const handleRegenerate = () => {
+    if (
+      !window.confirm(
+        "Generate new recovery codes? Your current codes will stop working.",
+      )
+    ) {
+      return;
+    }
+
+    startTransition(() => void regenerate());
+  };
+
+  return (
+    <div>
+      {codes && <RecoveryCodesList codes={codes} />}
+      <button onClick={handleRegenerate} disabled={isPending}>
+        {isPending ? <>...</> : "Generate new recovery codes"}
+      </button>
+      {result && <div>{result}</div>}
+    </div>
+  );
+}
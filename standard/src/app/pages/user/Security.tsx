@@ -0,0 +1,102 @@
+import { RequestInfo } from "rwsdk/worker";
+import { db } from "@/db";
+import { countRecoveryCodes } from "./recoveryCodes";
+import { RegenerateRecoveryCodesButton } from "./RecoveryCodes";
+import { link } from "@/app/shared/links";
+import {
+  AddPasskeyButton,
+  DeletePasskeyButton,
+  RenamePasskeyForm,
+} from "./PasskeyControls";
+import { UsernameForm } from "./UsernameForm";
+import { RealtimeUpdates } from "./RealtimeUpdates";
+
+const formatDate = (date: Date | null) =>
+  date ? date.toLocaleString("en-US", { timeZone: "UTC" }) + " UTC" : "Never";
+
+export async function Security({ ctx }: RequestInfo) {
+  const credentials = await db.credential.findMany({
+    where: { userId: ctx.user!.id },
+    orderBy: { createdAt: "asc" },
+  });
+  const isLastCredential = credentials.length <= 1;
+  const recoveryCodeCount = await countRecoveryCodes(ctx.user!.id);
+
+  return (
+    <div>
+      <RealtimeUpdates />
+      <h1>Passkeys</h1>
+      <p>
+        Passkeys you can use to log in as <strong>{ctx.user!.username}</strong>.
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Added</th>
+            <th>Last used</th>
+            <th>Synced</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {credentials.map((credential) => (
+            <tr key={credential.id}>
+              <td>
+                <RenamePasskeyForm
+                  id={credential.id}
+                  name={credential.name ?? ""}
+                />
+              </td>
+              <td>{formatDate(credential.createdAt)}</td>
+              <td>{formatDate(credential.lastUsedAt)}</td>
+              <td>
+                {credential.backedUp
+                  ? "Yes"
+                  : credential.backupEligible
+                    ? "Not yet"
+                    : "No"}
+              </td>
+              <td>
+                <DeletePasskeyButton
+                  id={credential.id}
+                  disabled={isLastCredential}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {isLastCredential && (
+        <p>
+          <small>
+            Add another passkey before removing this one, so you don't lose
+            access to your account.
+          </small>
+        </p>
+      )}
+      <AddPasskeyButton />
+      <h2>Recovery codes</h2>
+      <p>
+        {recoveryCodeCount === 0
+          ? "You have no recovery codes left. Generate some so you can get back in if you lose your passkeys."
+          : `You have ${recoveryCodeCount} unused recovery codes.`}
+      </p>
+      <RegenerateRecoveryCodesButton />
+      <h2>Username</h2>
+      <UsernameForm username={ctx.user!.username} />
+      <p>
+        <a href={link("/user/sessions")}>Manage sessions</a>
+      </p>
+      <p>
+        <a href={link("/user/events")}>Activity</a>
+      </p>
+      <p>
+        <a href={link("/bookmarks")}>Bookmarks</a>
+      </p>
+      <p>
+        <a href={link("/user/logout")}>Log out</a>
+      </p>
+    </div>
+  );
+}
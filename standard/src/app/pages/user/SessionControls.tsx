@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { revokeOtherSessions, revokeSession } from "./functions";
+import { withReauthentication } from "./withReauthentication";
+
+export function RevokeSessionButton({ id }: { id: string }) {
+  const [result, setResult] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const revoke = async () => {
+    const success = await revokeSession(id);
+
+    if (!success) {
+      setResult("This session was already signed out");
+    }
+  };
+
+  const handleRevoke = () => {
+    startTransition(() => void revoke());
+  };
+
+  return (
+    <>
+      <button onClick={handleRevoke} disabled={isPending}>
+        {isPending ? <>...</> : "Sign out"}
+      </button>
+      {result && <div>{result}</div>}
+    </>
+  );
+}
+
+export function RevokeOtherSessionsButton() {
+  const [result, setResult] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const revokeOthers = async () => {
+    const revoked = await withReauthentication(revokeOtherSessions);
+
+    if (revoked === null) {
+      setResult("Confirm it's you with your passkey to sign out other devices");
+      return;
+    }
+
+    setResult(
+      revoked === 1 ? "Signed out 1 session" : `Signed out ${revoked} sessions`,
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    if (!window.confirm("Sign out of all your other devices?")) {
+      return;
+    }
+
+    startTransition(() => void revokeOthers());
+  };
+
+  return (
+    <div>
+      <button onClick={handleRevokeOthers} disabled={isPending}>
+        {isPending ? <>...</> : "Sign out everywhere else"}
+      </button>
+      {result && <div>{result}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { RequestInfo } from "rwsdk/worker";
+import { sessionRegistry, describeDevice } from "@/session/registry";
+import { link } from "@/app/shared/links";
+import {
+  RevokeOtherSessionsButton,
+  RevokeSessionButton,
+} from "./SessionControls";
+import { RealtimeUpdates } from "./RealtimeUpdates";
+
+const formatDate = (date: Date) =>
+  date.toLocaleString("en-US", { timeZone: "UTC" }) + " UTC";
+
+const platformLabels: Record<string, string> = {
+  web: "Browser",
+  extension: "Extension",
+};
+
+export async function Sessions({ ctx }: RequestInfo) {
+  const sessions = await sessionRegistry.list(ctx.user!.id);
+
+  return (
+    <div>
+      <RealtimeUpdates />
+      <h1>Sessions</h1>
+      <p>
+        Places where <strong>{ctx.user!.username}</strong> is signed in. Sign
+        out any session you don't recognize, such as a lost laptop or an old
+        extension install.
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>Device</th>
+            <th>Type</th>
+            <th>Location</th>
+            <th>Signed in</th>
+            <th>Last seen</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {sessions.map((session) => (
+            <tr key={session.id}>
+              <td title={session.userAgent ?? undefined}>
+                {describeDevice(session.userAgent)}
+              </td>
+              <td>{platformLabels[session.platform] ?? session.platform}</td>
+              <td>{session.country ?? "Unknown"}</td>
+              <td>{formatDate(session.createdAt)}</td>
+              <td>{formatDate(session.lastSeenAt)}</td>
+              <td>
+                {session.id === ctx.session?.id ? (
+                  <a href={link("/user/logout")}>This device (log out)</a>
+                ) : (
+                  <RevokeSessionButton id={session.id} />
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {sessions.length > 1 && <RevokeOtherSessionsButton />}
+      <p>
+        <a href={link("/user/security")}>Manage passkeys</a>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { changeUsername } from "./functions";
+import type { RegistrationErrorCode } from "./passkeys";
+import { usernameErrorMessages } from "./username";
+import { withReauthentication } from "./withReauthentication";
+
+const usernameChangeErrorMessages: Partial<
+  Record<RegistrationErrorCode, string>
+> = {
+  ...usernameErrorMessages,
+  username_taken: "This username is already taken",
+};
+
+export function UsernameForm({ username }: { username: string }) {
+  const [value, setValue] = useState(username);
+  const [result, setResult] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const rename = async () => {
+    const renamed = await withReauthentication(() => changeUsername(value));
+
+    if (renamed === null) {
+      setResult("Confirm it's you with your passkey to change your username");
+    } else if ("error" in renamed) {
+      setResult(
+        usernameChangeErrorMessages[renamed.error] ??
+          "Your username could not be changed",
+      );
+    } else {
+      setValue(renamed.value);
+      setResult(`You are now ${renamed.value}`);
+    }
+  };
+
+  const handleRename = () => {
+    startTransition(() => void rename());
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        aria-label="Username"
+      />
+      <button
+        onClick={handleRename}
+        disabled={isPending || value.trim() === username}
+      >
+        {isPending ? <>...</> : "Change username"}
+      </button>
+      {result && <div>{result}</div>}
+    </div>
+  );
+}
@@ -1,170 +1,326 @@
 "use server";
 import {
-  generateRegistrationOptions,
-  generateAuthenticationOptions,
-  verifyRegistrationResponse,
-  verifyAuthenticationResponse,
   RegistrationResponseJSON,
   AuthenticationResponseJSON,
 } from "@simplewebauthn/server";
 
-import { sessions } from "@/session/store";
 import { requestInfo } from "rwsdk/worker";
 import { db } from "@/db";
-import { env } from "cloudflare:workers";
-
-function getWebAuthnConfig(request: Request) {
-  const rpID = env.WEBAUTHN_RP_ID ?? new URL(request.url).hostname;
-  const rpName = import.meta.env.VITE_IS_DEV_SERVER
-    ? "Development App"
-    : env.WEBAUTHN_APP_NAME;
-  return {
-    rpName,
-    rpID,
-  };
-}
+import { Prisma } from "@generated/prisma";
+import { toPublicUser } from "@/app/api/responses";
+import { publish } from "@/realtime/events";
+import { sessionRegistry } from "@/session/registry";
+import { sessions } from "@/session/store";
+import { requireRecentAuth } from "@/app/interruptors";
+import { SENSITIVE_ACTION_MAX_AGE } from "@/app/shared/reauthentication";
+import {
+  type RegistrationResult,
+  checkUsername,
+  createAddPasskeyOptions,
+  createLoginOptions,
+  createReauthenticationOptions,
+  createRegistrationOptions,
+  verifyAddedPasskey,
+  verifyLogin,
+  verifyReauthentication,
+  verifyRegistration,
+} from "./passkeys";
+import { normalizeUsername } from "./username";
+import {
+  consumeRecoveryCode,
+  countRecoveryCodes,
+  generateRecoveryCodes,
+} from "./recoveryCodes";
 
-export async function startPasskeyRegistration(username: string) {
-  const { rpName, rpID } = getWebAuthnConfig(requestInfo.request);
-  const { headers } = requestInfo;
+// How long a recovery code grants to enroll a new passkey
+const RECOVERY_SESSION_LIFETIME = 15 * 60 * 1000; // 15 minutes
 
-  const options = await generateRegistrationOptions({
-    rpName,
-    rpID,
-    userName: username,
-    authenticatorSelection: {
-      // Require the authenticator to store the credential, enabling a username-less login experience
-      residentKey: "required",
-      // Prefer user verification (biometric, PIN, etc.), but allow authentication even if it's not available
-      userVerification: "preferred",
-    },
-  });
+const MAX_PASSKEY_NAME_LENGTH = 64;
 
-  await sessions.save(headers, { challenge: options.challenge });
+const normalizePasskeyName = (name: string) =>
+  name.trim().slice(0, MAX_PASSKEY_NAME_LENGTH) || null;
 
-  return options;
+export async function startPasskeyRegistration(username: string) {
+  return createRegistrationOptions(username);
 }
 
 export async function startPasskeyLogin() {
-  const { rpID } = getWebAuthnConfig(requestInfo.request);
-  const { headers } = requestInfo;
-
-  const options = await generateAuthenticationOptions({
-    rpID,
-    userVerification: "preferred",
-    allowCredentials: [],
-  });
-
-  await sessions.save(headers, { challenge: options.challenge });
+  return createLoginOptions();
+}
 
-  return options;
+export async function checkUsernameAvailability(
+  username: string,
+): Promise<RegistrationResult<string>> {
+  return checkUsername(username);
 }
 
 export async function finishPasskeyRegistration(
   username: string,
   registration: RegistrationResponseJSON,
-) {
-  const { request, headers } = requestInfo;
-  const { origin } = new URL(request.url);
+): Promise<RegistrationResult<{ username: string; recoveryCodes: string[] }>> {
+  const result = await verifyRegistration(username, registration);
 
-  const session = await sessions.load(request);
-  const challenge = session?.challenge;
+  if ("error" in result) {
+    return result;
+  }
 
-  if (!challenge) {
-    return false;
+  const { user, recoveryCodes } = result.value;
+  return { value: { username: user.username, recoveryCodes } };
+}
+
+export async function finishPasskeyLogin(login: AuthenticationResponseJSON) {
+  const user = await verifyLogin(login);
+  return user !== null;
+}
+
+// Renames the signed in user, and tells their other tabs and extension
+// installs with a `user.updated` event
+export async function changeUsername(username: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
+    return null;
   }
 
-  const verification = await verifyRegistrationResponse({
-    response: registration,
-    expectedChallenge: challenge,
-    expectedOrigin: origin,
-    expectedRPID: env.WEBAUTHN_RP_ID || new URL(request.url).hostname,
-  });
+  const stepUp = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE);
+
+  if (stepUp) {
+    return stepUp;
+  }
 
-  if (!verification.verified || !verification.registrationInfo) {
+  const checked = await checkUsername(username);
+
+  if ("error" in checked) {
+    return checked;
+  }
+
+  let user;
+  try {
+    user = await db.user.update({
+      where: { id: ctx.user.id },
+      data: { username: checked.value },
+    });
+  } catch (error) {
+    // Someone took the username since it was checked
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { error: "username_taken" as const };
+    }
+
+    throw error;
+  }
+
+  await publish(user.id, { type: "user.updated", user: toPublicUser(user) });
+  return { value: user.username };
+}
+
+export async function startReauthentication() {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user || !ctx.session) {
+    return null;
+  }
+
+  return createReauthenticationOptions(ctx.user, ctx.session);
+}
+
+export async function finishReauthentication(
+  login: AuthenticationResponseJSON,
+) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user || !ctx.session) {
     return false;
   }
 
-  await sessions.save(headers, { challenge: null });
+  return verifyReauthentication(ctx.user, ctx.session, login);
+}
 
-  const user = await db.user.create({
-    data: {
-      username,
-    },
-  });
+export async function startAddPasskey() {
+  const { ctx } = requestInfo;
 
-  await db.credential.create({
-    data: {
-      userId: user.id,
-      credentialId: verification.registrationInfo.credential.id,
-      publicKey: verification.registrationInfo.credential.publicKey,
-      counter: verification.registrationInfo.credential.counter,
-    },
-  });
+  if (!ctx.user || !ctx.session) {
+    return null;
+  }
 
-  return true;
+  const stepUp = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE);
+
+  if (stepUp) {
+    return stepUp;
+  }
+
+  return createAddPasskeyOptions(ctx.user, ctx.session);
 }
 
-export async function finishPasskeyLogin(login: AuthenticationResponseJSON) {
-  const { request, headers } = requestInfo;
-  const { origin } = new URL(request.url);
+export async function finishAddPasskey(
+  registration: RegistrationResponseJSON,
+  name: string,
+) {
+  const { ctx } = requestInfo;
 
-  const session = await sessions.load(request);
-  const challenge = session?.challenge;
+  if (!ctx.user || !ctx.session) {
+    return false;
+  }
+
+  const credential = await verifyAddedPasskey(
+    ctx.user,
+    ctx.session,
+    registration,
+    normalizePasskeyName(name),
+  );
+  return credential !== null;
+}
+
+export async function renamePasskey(id: string, name: string) {
+  const { ctx } = requestInfo;
 
-  if (!challenge) {
+  if (!ctx.user) {
     return false;
   }
 
-  const credential = await db.credential.findUnique({
-    where: {
-      credentialId: login.id,
-    },
+  const { count } = await db.credential.updateMany({
+    where: { id, userId: ctx.user.id },
+    data: { name: normalizePasskeyName(name) },
   });
+  return count > 0;
+}
 
-  if (!credential) {
+export async function deletePasskey(id: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
     return false;
   }
 
-  const verification = await verifyAuthenticationResponse({
-    response: login,
-    expectedChallenge: challenge,
-    expectedOrigin: origin,
-    expectedRPID: env.WEBAUTHN_RP_ID || new URL(request.url).hostname,
-    requireUserVerification: false,
-    credential: {
-      id: credential.credentialId,
-      publicKey: credential.publicKey,
-      counter: credential.counter,
-    },
-  });
+  const stepUp = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE);
+
+  if (stepUp) {
+    return stepUp;
+  }
 
-  if (!verification.verified) {
+  // Refuse to delete the user's last passkey, as they could no longer log in.
+  // The count check is part of the same statement so that concurrent deletes
+  // can't remove the last two passkeys at once.
+  const deleted = await db.$executeRaw`
+    DELETE FROM Credential
+    WHERE id = ${id}
+      AND userId = ${ctx.user.id}
+      AND (SELECT COUNT(*) FROM Credential WHERE userId = ${ctx.user.id}) > 1
+  `;
+  return deleted > 0;
+}
+
+export async function revokeSession(id: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
     return false;
   }
 
-  await db.credential.update({
-    where: {
-      credentialId: login.id,
-    },
-    data: {
-      counter: verification.authenticationInfo.newCounter,
-    },
-  });
+  return sessionRegistry.revoke(ctx.user.id, id);
+}
+
+export async function revokeOtherSessions() {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user || !ctx.session) {
+    return 0;
+  }
+
+  const stepUp = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE);
+
+  if (stepUp) {
+    return stepUp;
+  }
+
+  return sessionRegistry.revokeOthers(ctx.user.id, ctx.session.id);
+}
+
+export async function regenerateRecoveryCodes() {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
+    return null;
+  }
+
+  const stepUp = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE);
+
+  if (stepUp) {
+    return stepUp;
+  }
+
+  return generateRecoveryCodes(ctx.user.id);
+}
+
+// Uses up one recovery code and starts a short-lived session that can only
+// enroll a new passkey for the user
+export async function startRecovery(
+  username: string,
+  code: string,
+): Promise<{ value: { remainingCodes: number } } | { error: string }> {
+  const { headers } = requestInfo;
 
   const user = await db.user.findUnique({
-    where: {
-      id: credential.userId,
-    },
+    where: { username: normalizeUsername(username) },
   });
 
-  if (!user) {
+  if (!user || !(await consumeRecoveryCode(user.id, code))) {
+    return { error: "invalid_recovery_code" };
+  }
+
+  await sessions.save(headers, {
+    recoveryUserId: user.id,
+    lifetime: RECOVERY_SESSION_LIFETIME,
+  });
+
+  return { value: { remainingCodes: await countRecoveryCodes(user.id) } };
+}
+
+export async function startRecoveryPasskey() {
+  const { ctx } = requestInfo;
+  const userId = ctx.session?.recoveryUserId;
+
+  if (!ctx.session || !userId) {
+    return null;
+  }
+
+  const user = await db.user.findUnique({ where: { id: userId } });
+  return user ? createAddPasskeyOptions(user, ctx.session) : null;
+}
+
+export async function finishRecoveryPasskey(
+  registration: RegistrationResponseJSON,
+  name: string,
+) {
+  const { request, headers, ctx } = requestInfo;
+  const userId = ctx.session?.recoveryUserId;
+
+  if (!ctx.session || !userId) {
+    return false;
+  }
+
+  const user = await db.user.findUnique({ where: { id: userId } });
+  const credential = user
+    ? await verifyAddedPasskey(
+        user,
+        ctx.session,
+        registration,
+        normalizePasskeyName(name),
+      )
+    : null;
+
+  if (!credential) {
     return false;
   }
 
+  // Swap the recovery session for a regular one, as if the user had just
+  // logged in with the new passkey
+  await sessions.remove(request, headers);
   await sessions.save(headers, {
-    userId: user.id,
-    challenge: null,
+    userId,
+    authenticatedAt: Date.now(),
   });
 
   return true;
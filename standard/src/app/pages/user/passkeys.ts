@@ -0,0 +1,481 @@
+import {
+  generateRegistrationOptions,
+  generateAuthenticationOptions,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+  RegistrationResponseJSON,
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  VerifiedRegistrationResponse,
+} from "@simplewebauthn/server";
+
+import { getSessionStub, sessions } from "@/session/store";
+import { requestInfo } from "rwsdk/worker";
+import { type Credential, type User, db } from "@/db";
+import type { Session } from "@/session/durableObject";
+import { Prisma } from "@generated/prisma";
+import { env } from "cloudflare:workers";
+import {
+  type UsernameErrorCode,
+  normalizeUsername,
+  validateUsername,
+} from "./username";
+import { generateRecoveryCodes } from "./recoveryCodes";
+
+// WebAuthn ceremonies shared by the server functions in `./functions.ts` and
+// the JSON routes under `/api/auth`. There is intentionally no "use server"
+// directive here, so none of these helpers are exposed as server actions.
+
+function getWebAuthnConfig(request: Request) {
+  const rpID = env.WEBAUTHN_RP_ID || new URL(request.url).hostname;
+  const rpName = import.meta.env.VITE_IS_DEV_SERVER
+    ? "Development App"
+    : env.WEBAUTHN_APP_NAME;
+  return {
+    rpName,
+    rpID,
+  };
+}
+
+export function parseTransports(
+  credential: Pick<Credential, "transports">,
+): AuthenticatorTransportFuture[] | undefined {
+  return credential.transports ? JSON.parse(credential.transports) : undefined;
+}
+
+async function saveCredential(
+  userId: string,
+  registrationInfo: NonNullable<
+    VerifiedRegistrationResponse["registrationInfo"]
+  >,
+  name: string | null = null,
+) {
+  const { credential, credentialDeviceType, credentialBackedUp } =
+    registrationInfo;
+
+  return db.credential.create({
+    data: {
+      userId,
+      credentialId: credential.id,
+      publicKey: credential.publicKey,
+      counter: credential.counter,
+      name,
+      transports: credential.transports
+        ? JSON.stringify(credential.transports)
+        : null,
+      backupEligible: credentialDeviceType === "multiDevice",
+      backedUp: credentialBackedUp,
+    },
+  });
+}
+
+export type RegistrationErrorCode =
+  | UsernameErrorCode
+  | "username_taken"
+  | "challenge_missing"
+  | "verification_failed";
+
+export type RegistrationResult<T> =
+  | { value: T }
+  | { error: RegistrationErrorCode };
+
+// Normalizes and validates a username for a new account
+export async function checkUsername(
+  username: string,
+): Promise<RegistrationResult<string>> {
+  const normalized = normalizeUsername(username);
+  const invalid = validateUsername(normalized);
+
+  if (invalid) {
+    return { error: invalid };
+  }
+
+  const existing = await db.user.findUnique({
+    where: { username: normalized },
+    select: { id: true },
+  });
+
+  if (existing) {
+    return { error: "username_taken" };
+  }
+
+  return { value: normalized };
+}
+
+export async function createRegistrationOptions(
+  username: string,
+): Promise<
+  RegistrationResult<Awaited<ReturnType<typeof generateRegistrationOptions>>>
+> {
+  const { rpName, rpID } = getWebAuthnConfig(requestInfo.request);
+  const { headers, ctx } = requestInfo;
+
+  const checked = await checkUsername(username);
+
+  if ("error" in checked) {
+    return checked;
+  }
+
+  // If someone registers a new account while logged in, stop authenticators
+  // that already hold one of their passkeys from creating a second account
+  const existingCredentials = ctx.user
+    ? await db.credential.findMany({ where: { userId: ctx.user.id } })
+    : [];
+
+  const options = await generateRegistrationOptions({
+    rpName,
+    rpID,
+    userName: checked.value,
+    excludeCredentials: existingCredentials.map((credential) => ({
+      id: credential.credentialId,
+      transports: parseTransports(credential),
+    })),
+    authenticatorSelection: {
+      // Require the authenticator to store the credential, enabling a username-less login experience
+      residentKey: "required",
+      // Prefer user verification (biometric, PIN, etc.), but allow authentication even if it's not available
+      userVerification: "preferred",
+    },
+  });
+
+  await sessions.save(headers, { challenge: options.challenge });
+
+  return { value: options };
+}
+
+export async function createLoginOptions() {
+  const { rpID } = getWebAuthnConfig(requestInfo.request);
+  const { headers } = requestInfo;
+
+  const options = await generateAuthenticationOptions({
+    rpID,
+    userVerification: "preferred",
+    // Left empty so the browser can offer any discoverable passkey, which the
+    // autofill (conditional mediation) login on `/user/login` relies on
+    allowCredentials: [],
+  });
+
+  await sessions.save(headers, { challenge: options.challenge });
+
+  return options;
+}
+
+export async function verifyRegistration(
+  username: string,
+  registration: RegistrationResponseJSON,
+): Promise<RegistrationResult<{ user: User; recoveryCodes: string[] }>> {
+  const { request, headers } = requestInfo;
+  const { origin } = new URL(request.url);
+  const { rpID } = getWebAuthnConfig(request);
+
+  const checked = await checkUsername(username);
+
+  if ("error" in checked) {
+    return checked;
+  }
+
+  const session = await sessions.load(request);
+  const challenge = session?.challenge;
+
+  if (!challenge) {
+    return { error: "challenge_missing" };
+  }
+
+  let verification: VerifiedRegistrationResponse;
+
+  try {
+    verification = await verifyRegistrationResponse({
+      response: registration,
+      expectedChallenge: challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+    });
+  } catch (error) {
+    console.error("Passkey registration verification failed", error);
+    return { error: "verification_failed" };
+  }
+
+  if (!verification.verified || !verification.registrationInfo) {
+    return { error: "verification_failed" };
+  }
+
+  await sessions.save(headers, { challenge: null });
+
+  let user: User;
+
+  try {
+    user = await db.user.create({
+      data: {
+        username: checked.value,
+      },
+    });
+  } catch (error) {
+    // Someone else registered the same username since `checkUsername` ran
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { error: "username_taken" };
+    }
+
+    throw error;
+  }
+
+  await saveCredential(user.id, verification.registrationInfo);
+
+  return {
+    value: { user, recoveryCodes: await generateRecoveryCodes(user.id) },
+  };
+}
+
+// Registration options for adding another passkey to the logged in user
+export async function createAddPasskeyOptions(user: User, session: Session) {
+  const { rpName, rpID } = getWebAuthnConfig(requestInfo.request);
+
+  const credentials = await db.credential.findMany({
+    where: { userId: user.id },
+  });
+
+  const options = await generateRegistrationOptions({
+    rpName,
+    rpID,
+    userName: user.username,
+    // The user's id as the user handle. The passkey created at sign-up got a
+    // random handle instead, as the user didn't exist yet, so authenticators
+    // may list it separately from the passkeys added here.
+    userID: new TextEncoder().encode(user.id),
+    // Stop authenticators that already hold a passkey for this account from
+    // creating a duplicate
+    excludeCredentials: credentials.map((credential) => ({
+      id: credential.credentialId,
+      transports: parseTransports(credential),
+    })),
+    authenticatorSelection: {
+      residentKey: "required",
+      userVerification: "preferred",
+    },
+  });
+
+  // Keep the user's session (and when they last verified a passkey) in place
+  await getSessionStub(session.id).setChallenge(options.challenge);
+
+  return options;
+}
+
+export async function verifyAddedPasskey(
+  user: User,
+  session: Session,
+  registration: RegistrationResponseJSON,
+  name: string | null,
+): Promise<Credential | null> {
+  const { request } = requestInfo;
+  const { origin } = new URL(request.url);
+  const { rpID } = getWebAuthnConfig(request);
+
+  const stub = getSessionStub(session.id);
+  const current = await stub.getSession();
+  const challenge = "value" in current ? current.value.challenge : null;
+
+  // Also allowed from a recovery session, which has no `userId` yet
+  if (
+    !challenge ||
+    (session.userId !== user.id && session.recoveryUserId !== user.id)
+  ) {
+    return null;
+  }
+
+  let verification: VerifiedRegistrationResponse;
+
+  try {
+    verification = await verifyRegistrationResponse({
+      response: registration,
+      expectedChallenge: challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+    });
+  } catch (error) {
+    console.error("Added passkey verification failed", error);
+    return null;
+  }
+
+  if (!verification.verified || !verification.registrationInfo) {
+    return null;
+  }
+
+  await stub.setChallenge(null);
+
+  return saveCredential(user.id, verification.registrationInfo, name);
+}
+
+export async function verifyLogin(
+  login: AuthenticationResponseJSON,
+): Promise<User | null> {
+  const { request, headers } = requestInfo;
+  const { origin } = new URL(request.url);
+  const { rpID } = getWebAuthnConfig(request);
+
+  const session = await sessions.load(request);
+  const challenge = session?.challenge;
+
+  if (!challenge) {
+    return null;
+  }
+
+  const credential = await db.credential.findUnique({
+    where: {
+      credentialId: login.id,
+    },
+  });
+
+  if (!credential) {
+    return null;
+  }
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response: login,
+      expectedChallenge: challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+      credential: {
+        id: credential.credentialId,
+        publicKey: credential.publicKey,
+        counter: credential.counter,
+        transports: parseTransports(credential),
+      },
+    });
+  } catch (error) {
+    console.error("Passkey login failed", error);
+    return null;
+  }
+
+  if (!verification.verified) {
+    return null;
+  }
+
+  await db.credential.update({
+    where: {
+      credentialId: login.id,
+    },
+    data: {
+      counter: verification.authenticationInfo.newCounter,
+      backedUp: verification.authenticationInfo.credentialBackedUp,
+      lastUsedAt: new Date(),
+    },
+  });
+
+  const user = await db.user.findUnique({
+    where: {
+      id: credential.userId,
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  await sessions.save(headers, {
+    userId: user.id,
+    challenge: null,
+    authenticatedAt: Date.now(),
+  });
+
+  return user;
+}
+
+// Step-up options for a signed in user: only their own passkeys are allowed,
+// and user verification (biometric, PIN, etc.) is required
+export async function createReauthenticationOptions(
+  user: User,
+  session: Session,
+) {
+  const { rpID } = getWebAuthnConfig(requestInfo.request);
+
+  const credentials = await db.credential.findMany({
+    where: { userId: user.id },
+  });
+
+  const options = await generateAuthenticationOptions({
+    rpID,
+    userVerification: "required",
+    allowCredentials: credentials.map((credential) => ({
+      id: credential.credentialId,
+      transports: parseTransports(credential),
+    })),
+  });
+
+  await getSessionStub(session.id).setChallenge(options.challenge);
+
+  return options;
+}
+
+// Records `authenticatedAt` on the current session when the user verified one
+// of their own passkeys
+export async function verifyReauthentication(
+  user: User,
+  session: Session,
+  login: AuthenticationResponseJSON,
+): Promise<boolean> {
+  const { request } = requestInfo;
+  const { origin } = new URL(request.url);
+  const { rpID } = getWebAuthnConfig(request);
+
+  const stub = getSessionStub(session.id);
+  const current = await stub.getSession();
+  const challenge = "value" in current ? current.value.challenge : null;
+
+  if (!challenge) {
+    return false;
+  }
+
+  const credential = await db.credential.findUnique({
+    where: {
+      credentialId: login.id,
+    },
+  });
+
+  if (!credential || credential.userId !== user.id) {
+    return false;
+  }
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response: login,
+      expectedChallenge: challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: true,
+      credential: {
+        id: credential.credentialId,
+        publicKey: credential.publicKey,
+        counter: credential.counter,
+        transports: parseTransports(credential),
+      },
+    });
+  } catch (error) {
+    console.error("Passkey re-authentication failed", error);
+    return false;
+  }
+
+  if (!verification.verified) {
+    return false;
+  }
+
+  await db.credential.update({
+    where: {
+      credentialId: login.id,
+    },
+    data: {
+      counter: verification.authenticationInfo.newCounter,
+      backedUp: verification.authenticationInfo.credentialBackedUp,
+      lastUsedAt: new Date(),
+    },
+  });
+
+  await stub.markAuthenticated();
+
+  return true;
+}
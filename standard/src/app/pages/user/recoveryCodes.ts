@@ -0,0 +1,70 @@
+import { db } from "@/db";
+
+// One-time recovery codes let a user who lost their passkeys back in to
+// enroll a new one. Only hashes are stored, so the codes are shown once, when
+// they are generated at registration or regenerated from `/user/security`.
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Crockford's base32 alphabet, without the easily confused I, L, O and U
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const CODE_LENGTH = 10; // 50 bits, shown as two groups of five
+
+function createCode() {
+  const chars = Array.from(
+    crypto.getRandomValues(new Uint8Array(CODE_LENGTH)),
+    (b) => ALPHABET[b % ALPHABET.length],
+  ).join("");
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+// Codes are accepted regardless of case, spaces and dashes
+function normalizeRecoveryCode(code: string) {
+  return code.toUpperCase().replace(/[\s-]/g, "");
+}
+
+async function hashRecoveryCode(code: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalizeRecoveryCode(code)),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Replaces all of the user's codes with a fresh set, returned in plain text
+export async function generateRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, createCode);
+  const codeHashes = await Promise.all(codes.map(hashRecoveryCode));
+
+  const previous = await db.recoveryCode.findMany({
+    where: { userId },
+    select: { id: true },
+  });
+
+  // The D1 adapter doesn't run `$transaction` atomically, so the new codes are
+  // stored before the old ones are deleted: if storing them fails, the user
+  // keeps the codes they have
+  await db.recoveryCode.createMany({
+    data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+  });
+  await db.recoveryCode.deleteMany({
+    where: { id: { in: previous.map((code) => code.id) } },
+  });
+
+  return codes;
+}
+
+export async function countRecoveryCodes(userId: string) {
+  return db.recoveryCode.count({ where: { userId } });
+}
+
+// Returns `true` and uses up the code if it is one of the user's unused codes
+export async function consumeRecoveryCode(userId: string, code: string) {
+  // Deleting makes the code single-use even under concurrent requests
+  const { count } = await db.recoveryCode.deleteMany({
+    where: { userId, codeHash: await hashRecoveryCode(code) },
+  });
+  return count > 0;
+}
@@ -1,9 +1,18 @@
 import { route } from "rwsdk/router";
 import { Login } from "./Login";
+import { Security } from "./Security";
+import { Sessions } from "./Sessions";
+import { Recover } from "./Recover";
+import { Events } from "./Events";
+import { requireUser } from "@/app/interruptors";
 import { sessions } from "@/session/store";
 
 export const userRoutes = [
   route("/login", [Login]),
+  route("/recover", [Recover]),
+  route("/security", [requireUser, Security]),
+  route("/sessions", [requireUser, Sessions]),
+  route("/events", [requireUser, Events]),
   route("/logout", async function ({ request }) {
     const headers = new Headers();
     await sessions.remove(request, headers);
@@ -0,0 +1,42 @@
+// Username rules shared by the worker and `Login.tsx`, so the form can give
+// instant feedback before asking the worker about availability
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 32;
+
+// Lowercase letters, digits, ".", "_" and "-", starting and ending with a
+// letter or digit
+const USERNAME_PATTERN = /^[a-z0-9](?:[a-z0-9._-]*[a-z0-9])?$/;
+
+export type UsernameErrorCode =
+  | "username_too_short"
+  | "username_too_long"
+  | "username_invalid_characters";
+
+export const usernameErrorMessages: Record<UsernameErrorCode, string> = {
+  username_too_short: `Usernames need at least ${USERNAME_MIN_LENGTH} characters`,
+  username_too_long: `Usernames can have at most ${USERNAME_MAX_LENGTH} characters`,
+  username_invalid_characters:
+    'Usernames can only contain letters, digits, ".", "_" and "-", and must start and end with a letter or digit',
+};
+
+export function normalizeUsername(username: string) {
+  return username.normalize("NFKC").trim().toLowerCase();
+}
+
+// Expects a normalized username
+export function validateUsername(username: string): UsernameErrorCode | null {
+  if (username.length < USERNAME_MIN_LENGTH) {
+    return "username_too_short";
+  }
+
+  if (username.length > USERNAME_MAX_LENGTH) {
+    return "username_too_long";
+  }
+
+  if (!USERNAME_PATTERN.test(username)) {
+    return "username_invalid_characters";
+  }
+
+  return null;
+}
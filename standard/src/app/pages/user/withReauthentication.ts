@@ -0,0 +1,42 @@
+import { startAuthentication } from "@simplewebauthn/browser";
+import {
+  type ReauthenticationRequired,
+  isReauthenticationRequired,
+} from "@/app/shared/reauthentication";
+import { finishReauthentication, startReauthentication } from "./functions";
+
+// Client helper for server functions guarded by `requireRecentAuth`: when the
+// action asks for a fresh passkey verification, runs the ceremony and retries
+// it once. Resolves to `null` if the user cancels or verification fails.
+export async function withReauthentication<T>(
+  action: () => Promise<T | ReauthenticationRequired>,
+): Promise<T | null> {
+  const result = await action();
+
+  if (!isReauthenticationRequired(result)) {
+    return result;
+  }
+
+  // 1. Get a challenge for the user's own passkeys from the worker
+  const options = await startReauthentication();
+
+  if (!options) {
+    return null;
+  }
+
+  // 2. Ask the browser to sign the challenge
+  let login;
+  try {
+    login = await startAuthentication({ optionsJSON: options });
+  } catch {
+    return null;
+  }
+
+  // 3. Give the signed challenge to the worker, then retry the action
+  if (!(await finishReauthentication(login))) {
+    return null;
+  }
+
+  const retried = await action();
+  return isReauthenticationRequired(retried) ? null : retried;
+}
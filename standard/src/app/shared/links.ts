@@ -1,3 +1,16 @@
 import { defineLinks } from "rwsdk/router";
 
-export const link = defineLinks(["/", "/user/login", "/user/logout"]);
+export const link = defineLinks([
+  "/",
+  "/bookmarks",
+  "/user/login",
+  "/user/logout",
+  "/user/security",
+  "/user/sessions",
+  "/user/events",
+  "/user/recover",
+  "/auth/extension",
+  "/auth/extension/reauthenticate",
+  "/auth/extension/success",
+  "/auth/extension/error",
+]);
@@ -0,0 +1,33 @@
+// Sensitive actions need the user to have verified a passkey recently, not
+// just to hold a session. When they haven't, server functions return
+// `ReauthenticationRequired` and API routes answer `403` with the same
+// `error` code, so clients can run the re-authentication ceremony and retry.
+
+export const REAUTHENTICATION_REQUIRED = "reauthentication_required";
+
+// How recently the user must have verified a passkey to change how they sign
+// in or to sign out their other devices
+export const SENSITIVE_ACTION_MAX_AGE = 5 * 60; // 5 minutes, in seconds
+
+export interface ReauthenticationRequired {
+  error: typeof REAUTHENTICATION_REQUIRED;
+  maxAge: number; // seconds
+}
+
+export const reauthenticationRequired = (
+  maxAge: number,
+): ReauthenticationRequired => ({ error: REAUTHENTICATION_REQUIRED, maxAge });
+
+export const isReauthenticationRequired = (
+  value: unknown,
+): value is ReauthenticationRequired =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as { error?: unknown }).error === REAUTHENTICATION_REQUIRED;
+
+export const isRecentlyAuthenticated = (
+  session: { authenticatedAt?: number | null } | null,
+  maxAgeSeconds: number,
+) =>
+  !!session?.authenticatedAt &&
+  session.authenticatedAt + maxAgeSeconds * 1000 > Date.now();
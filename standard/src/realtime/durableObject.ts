@@ -0,0 +1,60 @@
+import { DurableObject } from "cloudflare:workers";
+import { type RealtimeEvent, SESSION_REVOKED_CLOSE_CODE } from "./events";
+
+// One per user, holding the WebSocket connections of all their signed in
+// sessions. Connections use the hibernation API, so the object is evicted
+// from memory while nothing is being sent, and heartbeats are answered by the
+// runtime without waking it.
+export class RealtimeDurableObject extends DurableObject<Env> {
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.ctx.setWebSocketAutoResponse(
+      new WebSocketRequestResponsePair("ping", "pong"),
+    );
+  }
+
+  async fetch(request: Request) {
+    const sessionId = request.headers.get("X-Session-Id");
+
+    if (request.headers.get("Upgrade") !== "websocket" || !sessionId) {
+      return new Response("Expected a WebSocket upgrade", { status: 426 });
+    }
+
+    const [client, server] = Object.values(new WebSocketPair());
+
+    // Tagged with the session, so its connections can be closed when it is
+    // revoked
+    this.ctx.acceptWebSocket(server, [sessionId]);
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  async broadcast(event: RealtimeEvent) {
+    const message = JSON.stringify(event);
+
+    for (const socket of this.ctx.getWebSockets()) {
+      try {
+        socket.send(message);
+      } catch {
+        // Already closing
+      }
+    }
+
+    if (event.type === "session.revoked") {
+      for (const socket of this.ctx.getWebSockets(event.sessionId)) {
+        socket.close(SESSION_REVOKED_CLOSE_CODE, "Session revoked");
+      }
+    }
+  }
+
+  // Clients only send heartbeats, which never reach the object
+  async webSocketMessage() {}
+
+  async webSocketClose(socket: WebSocket, code: number, reason: string) {
+    try {
+      socket.close(code, reason);
+    } catch {
+      // Codes such as 1006 (abnormal closure) can't be sent back
+    }
+  }
+}
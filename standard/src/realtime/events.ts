@@ -0,0 +1,34 @@
+import { env } from "cloudflare:workers";
+import type { toPublicUser } from "@/app/api/responses";
+
+// Events pushed to every open connection of a user (see
+// `RealtimeDurableObject`), so other tabs and extension installs can react
+// without polling
+export type RealtimeEvent =
+  // The session was signed out. Its own connections are closed right after.
+  | { type: "session.revoked"; sessionId: string }
+  // Synced records changed; `sessionId` is the session that pushed them
+  | { type: "sync.changed"; sessionId: string }
+  // The user's profile changed, e.g. their username (see `changeUsername`)
+  | { type: "user.updated"; user: ReturnType<typeof toPublicUser> };
+
+// Close code for connections of a revoked session, which should not reconnect
+export const SESSION_REVOKED_CLOSE_CODE = 4001;
+
+const getRealtimeStub = (userId: string) =>
+  env.REALTIME_DURABLE_OBJECT.get(
+    env.REALTIME_DURABLE_OBJECT.idFromName(userId),
+  );
+
+export const publish = (userId: string, event: RealtimeEvent) =>
+  getRealtimeStub(userId).broadcast(event);
+
+// Hands a WebSocket upgrade request for the given session to the user's
+// durable object
+export const connect = (request: Request, userId: string, sessionId: string) =>
+  getRealtimeStub(userId).fetch(request.url, {
+    headers: {
+      Upgrade: "websocket",
+      "X-Session-Id": sessionId,
+    },
+  });
@@ -1,43 +1,121 @@
-import { MAX_SESSION_DURATION } from "rwsdk/auth";
 import { DurableObject } from "cloudflare:workers";
 
 export interface Session {
+  // Id of the durable object holding the session, which the user's session
+  // index (`src/session/registry.ts`) uses to revoke it remotely
+  id: string;
   userId?: string | null;
+  // Set instead of `userId` after a recovery code was used: the session only
+  // lets that user enroll a new passkey (see `/user/recover`)
+  recoveryUserId?: string | null;
   challenge?: string | null;
   createdAt: number;
+  // Overrides `SESSION_MAX_LIFETIME` for short-lived sessions, in milliseconds
+  lifetime?: number | null;
+  // Last time the user proved their identity with a passkey in this session,
+  // checked by `requireRecentAuth` before sensitive actions
+  authenticatedAt?: number | null;
+  // Sliding expiry: the session ends after `SESSION_IDLE_TIMEOUT` without
+  // activity, and at the latest `SESSION_MAX_LIFETIME` after it was created
+  lastActiveAt: number;
+  expiresAt: number;
+  // When the session index last recorded this session
+  lastSeenAt?: number;
 }
 
-export class SessionDurableObject extends DurableObject {
+// `lastActiveAt` is only written back this often, rather than on every request
+const ACTIVITY_UPDATE_INTERVAL = 60 * 1000; // 1 minute
+
+const DEFAULT_IDLE_TIMEOUT = 7 * 24 * 60 * 60; // 7 days, in seconds
+const DEFAULT_MAX_LIFETIME = 30 * 24 * 60 * 60; // 30 days, in seconds
+
+const parseSeconds = (value: string | undefined, fallback: number) => {
+  const seconds = Number(value);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : fallback) * 1000;
+};
+
+// How long a rotated-out refresh token may still be exchanged, so that
+// concurrent refreshes from several extension contexts don't look like reuse
+const REFRESH_TOKEN_REUSE_GRACE_PERIOD = 30 * 1000; // 30 seconds
+
+interface RefreshTokenFamily {
+  generation: number;
+  rotatedAt: number;
+}
+
+export class SessionDurableObject extends DurableObject<Env> {
   private session: Session | undefined = undefined;
+  private idleTimeout: number;
+  private maxLifetime: number;
   constructor(state: DurableObjectState, env: Env) {
     super(state, env);
     this.session = undefined;
+    this.idleTimeout = parseSeconds(
+      env.SESSION_IDLE_TIMEOUT,
+      DEFAULT_IDLE_TIMEOUT,
+    );
+    this.maxLifetime = parseSeconds(
+      env.SESSION_MAX_LIFETIME,
+      DEFAULT_MAX_LIFETIME,
+    );
+  }
+
+  private getExpiresAt(
+    session: Pick<Session, "createdAt" | "lastActiveAt" | "lifetime">,
+  ) {
+    return Math.min(
+      session.lastActiveAt + this.idleTimeout,
+      session.createdAt + (session.lifetime ?? this.maxLifetime),
+    );
+  }
+
+  // Stores the session and schedules `alarm` for when it expires, so expired
+  // sessions are deleted even if they are never used again
+  private async putSession(session: Session) {
+    await this.ctx.storage.put<Session>("session", session);
+    await this.ctx.storage.setAlarm(session.expiresAt);
+    this.session = session;
   }
 
+  // `createdAt` and `authenticatedAt` can be carried over when a session is
+  // rotated, so rotating doesn't extend its absolute lifetime
   async saveSession({
     userId = null,
+    recoveryUserId = null,
     challenge = null,
+    createdAt = Date.now(),
+    lifetime = null,
+    authenticatedAt = null,
   }: {
     userId?: string | null;
+    recoveryUserId?: string | null;
     challenge?: string | null;
+    createdAt?: number;
+    lifetime?: number | null;
+    authenticatedAt?: number | null;
   }): Promise<Session> {
+    const now = Date.now();
     const session: Session = {
+      id: this.ctx.id.toString(),
       userId,
+      recoveryUserId,
       challenge,
-      createdAt: Date.now(),
+      createdAt,
+      lifetime,
+      authenticatedAt,
+      lastActiveAt: now,
+      expiresAt: this.getExpiresAt({ createdAt, lastActiveAt: now, lifetime }),
     };
 
-    await this.ctx.storage.put<Session>("session", session);
-    this.session = session;
+    await this.putSession(session);
     return session;
   }
 
-  async getSession(): Promise<{ value: Session } | { error: string }> {
-    if (this.session) {
-      return { value: this.session };
-    }
-
-    const session = await this.ctx.storage.get<Session>("session");
+  // Reads the session without counting as activity, e.g. to list it among
+  // the user's sessions
+  async peekSession(): Promise<{ value: Session } | { error: string }> {
+    const session =
+      this.session ?? (await this.ctx.storage.get<Session>("session"));
 
     if (!session) {
       return {
@@ -45,7 +123,7 @@ export class SessionDurableObject extends DurableObject {
       };
     }
 
-    if (session.createdAt + MAX_SESSION_DURATION < Date.now()) {
+    if (session.expiresAt <= Date.now()) {
       await this.revokeSession();
       return {
         error: "Session expired",
@@ -56,8 +134,142 @@ export class SessionDurableObject extends DurableObject {
     return { value: session };
   }
 
+  // Every successful lookup counts as activity and slides the expiry forward.
+  // Used when the session is loaded for a request made with it.
+  async getSession(): Promise<{ value: Session } | { error: string }> {
+    const result = await this.peekSession();
+
+    if ("error" in result) {
+      return result;
+    }
+
+    const session = result.value;
+    const now = Date.now();
+
+    if (session.lastActiveAt + ACTIVITY_UPDATE_INTERVAL <= now) {
+      const active: Session = {
+        ...session,
+        lastActiveAt: now,
+        expiresAt: this.getExpiresAt({ ...session, lastActiveAt: now }),
+      };
+      await this.putSession(active);
+      return { value: active };
+    }
+
+    return result;
+  }
+
+  async touchSession(): Promise<void> {
+    const result = await this.getSession();
+
+    if ("error" in result) {
+      return;
+    }
+
+    await this.putSession({ ...result.value, lastSeenAt: Date.now() });
+  }
+
+  // Unlike `saveSession`, these keep the session (and its id) in place, for
+  // ceremonies run by a user who is already signed in
+  async setChallenge(challenge: string | null): Promise<void> {
+    const result = await this.getSession();
+
+    if ("error" in result) {
+      return;
+    }
+
+    await this.putSession({ ...result.value, challenge });
+  }
+
+  async markAuthenticated(): Promise<void> {
+    const result = await this.getSession();
+
+    if ("error" in result) {
+      return;
+    }
+
+    await this.putSession({
+      ...result.value,
+      challenge: null,
+      authenticatedAt: Date.now(),
+    });
+  }
+
+  async startRefreshTokenFamily(): Promise<number> {
+    const family: RefreshTokenFamily = { generation: 0, rotatedAt: Date.now() };
+    await this.ctx.storage.put<RefreshTokenFamily>(
+      "refreshTokenFamily",
+      family,
+    );
+    return family.generation;
+  }
+
+  async rotateRefreshToken(
+    generation: number,
+  ): Promise<
+    { value: { session: Session; generation: number } } | { error: string }
+  > {
+    const result = await this.getSession();
+
+    if ("error" in result) {
+      return result;
+    }
+
+    const family =
+      await this.ctx.storage.get<RefreshTokenFamily>("refreshTokenFamily");
+
+    if (!family) {
+      return { error: "Invalid refresh token" };
+    }
+
+    if (generation === family.generation) {
+      const rotated: RefreshTokenFamily = {
+        generation: family.generation + 1,
+        rotatedAt: Date.now(),
+      };
+      await this.ctx.storage.put<RefreshTokenFamily>(
+        "refreshTokenFamily",
+        rotated,
+      );
+      return {
+        value: { session: result.value, generation: rotated.generation },
+      };
+    }
+
+    if (
+      generation === family.generation - 1 &&
+      family.rotatedAt + REFRESH_TOKEN_REUSE_GRACE_PERIOD > Date.now()
+    ) {
+      return {
+        value: { session: result.value, generation: family.generation },
+      };
+    }
+
+    // An older refresh token was replayed: assume it leaked and revoke the
+    // whole family, including the current refresh and access tokens
+    await this.revokeSession();
+    return { error: "Refresh token reuse detected" };
+  }
+
   async revokeSession() {
-    await this.ctx.storage.delete("session");
+    await this.ctx.storage.delete(["session", "refreshTokenFamily"]);
+    await this.ctx.storage.deleteAlarm();
     this.session = undefined;
   }
+
+  async alarm() {
+    const session = await this.ctx.storage.get<Session>("session");
+
+    if (!session) {
+      return;
+    }
+
+    // The session was used since the alarm was scheduled
+    if (session.expiresAt > Date.now()) {
+      await this.ctx.storage.setAlarm(session.expiresAt);
+      return;
+    }
+
+    await this.revokeSession();
+  }
 }
@@ -0,0 +1,156 @@
+import { type UserSession, db } from "@/db";
+import type { Session } from "./durableObject";
+import { getSessionStub } from "./store";
+import { publish } from "@/realtime/events";
+
+// Index of every signed in session a user has, across browsers and extension
+// installs, so they can see and revoke them. `SessionDurableObject` stays the
+// source of truth: an index row is only listed while its durable object still
+// holds the session, and rows for revoked or expired sessions are pruned
+// lazily when the user lists their sessions.
+
+export type SessionPlatform = "web" | "extension";
+
+// `lastSeenAt` is only written back this often, rather than on every request
+const LAST_SEEN_UPDATE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+export let sessionRegistry: ReturnType<typeof createSessionRegistry>;
+
+const createSessionRegistry = () => {
+  // Adds the session to its user's index, or refreshes its last seen time
+  const track = async (
+    session: Session,
+    request: Request,
+    platform: SessionPlatform,
+  ) => {
+    if (!session.userId || !session.id) {
+      return;
+    }
+
+    if (
+      session.lastSeenAt &&
+      session.lastSeenAt + LAST_SEEN_UPDATE_INTERVAL > Date.now()
+    ) {
+      return;
+    }
+
+    const lastSeenAt = new Date();
+    const country = (request.cf?.country as string | undefined) ?? null;
+
+    await db.userSession.upsert({
+      where: { id: session.id },
+      create: {
+        id: session.id,
+        userId: session.userId,
+        platform,
+        userAgent: request.headers.get("User-Agent"),
+        country,
+        lastSeenAt,
+      },
+      update: { country, lastSeenAt },
+    });
+    await getSessionStub(session.id).touchSession();
+  };
+
+  const list = async (userId: string): Promise<UserSession[]> => {
+    const rows = await db.userSession.findMany({
+      where: { userId },
+      orderBy: { lastSeenAt: "desc" },
+    });
+
+    // Looking at the list doesn't count as activity in the listed sessions
+    const alive = await Promise.all(
+      rows.map(async (row) => {
+        const result = await getSessionStub(row.id).peekSession();
+        return "value" in result && result.value.userId === userId;
+      }),
+    );
+
+    const stale = rows.filter((_, index) => !alive[index]);
+
+    if (stale.length > 0) {
+      await db.userSession.deleteMany({
+        where: { id: { in: stale.map((row) => row.id) } },
+      });
+    }
+
+    return rows.filter((_, index) => alive[index]);
+  };
+
+  // Signs the session out wherever it is used. Returns `false` when the
+  // session does not belong to the user.
+  const revoke = async (userId: string, id: string) => {
+    const { count } = await db.userSession.deleteMany({
+      where: { id, userId },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await getSessionStub(id).revokeSession();
+    await publish(userId, { type: "session.revoked", sessionId: id });
+    return true;
+  };
+
+  const revokeOthers = async (userId: string, currentId: string) => {
+    const others = await db.userSession.findMany({
+      where: { userId, id: { not: currentId } },
+      select: { id: true },
+    });
+
+    const revoked = await Promise.all(
+      others.map((session) => revoke(userId, session.id)),
+    );
+    return revoked.filter(Boolean).length;
+  };
+
+  return {
+    track,
+    list,
+    revoke,
+    revokeOthers,
+  };
+};
+
+export const setupSessionRegistry = () => {
+  sessionRegistry = createSessionRegistry();
+  return sessionRegistry;
+};
+
+// Patterns are checked in order, as user agents mention several browsers and
+// platforms (e.g. Edge also claims to be Chrome, Android also claims Linux)
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+// A short label such as "Chrome on macOS" for the sessions list
+export const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) =>
+    pattern.test(userAgent),
+  )?.[1];
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+
+  return browser ?? os ?? "Unknown device";
+};
@@ -1,4 +1,5 @@
 import { defineDurableSession } from "rwsdk/auth";
+import { env } from "cloudflare:workers";
 
 export let sessions: ReturnType<typeof createSessionStore>;
 
@@ -11,3 +12,8 @@ export const setupSessionStore = (env: Env) => {
   sessions = createSessionStore(env);
   return sessions;
 };
+
+// The durable object behind a loaded session (see `Session.id`), for updates
+// that keep the session in place instead of starting a new one
+export const getSessionStub = (id: string) =>
+  env.SESSION_DURABLE_OBJECT.get(env.SESSION_DURABLE_OBJECT.idFromString(id));
@@ -0,0 +1,309 @@
+import { ErrorResponse } from "rwsdk/worker";
+import type { Session } from "./durableObject";
+
+// Bearer tokens for clients that cannot rely on the session cookie, such as
+// the extension's service worker. Every token family lives in its own
+// `SessionDurableObject`, so revoking the session revokes all of its tokens.
+
+export const ACCESS_TOKEN_TTL = 15 * 60 * 1000; // 15 minutes
+
+// Access tokens closer than this to expiry are renewed through the
+// `X-Access-Token` / `X-Token-Expires-At` response headers.
+const ACCESS_TOKEN_RENEWAL_WINDOW = 2 * 60 * 1000; // 2 minutes
+
+// Realtime tickets authenticate a WebSocket connection, which can't carry an
+// `Authorization` header, so they only need to outlive the handshake
+const REALTIME_TICKET_TTL = 60 * 1000; // 1 minute
+
+interface AccessTokenPayload {
+  typ: "access";
+  sid: string;
+  sub: string;
+  exp: number;
+}
+
+interface RefreshTokenPayload {
+  typ: "refresh";
+  sid: string;
+  gen: number;
+}
+
+interface RealtimeTicketPayload {
+  typ: "realtime";
+  sid: string; // `Session.id`
+  sub: string;
+  exp: number;
+}
+
+type TokenPayload =
+  | AccessTokenPayload
+  | RefreshTokenPayload
+  | RealtimeTicketPayload;
+
+export interface TokenSet {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string;
+  // When the underlying session ends unless it is used again, after which
+  // the refresh token stops working too
+  sessionExpiresAt: string;
+}
+
+export interface TokenSession {
+  sessionId: string;
+  session: Session;
+  renewedAccessToken: { accessToken: string; expiresAt: string } | null;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) =>
+    char.charCodeAt(0),
+  );
+
+export let tokens: ReturnType<typeof createTokenStore>;
+
+const createTokenStore = (env: Env) => {
+  const secretKey =
+    env.AUTH_SECRET_KEY ||
+    (import.meta.env.VITE_IS_DEV_SERVER
+      ? "development-secret-key-do-not-use-in-production"
+      : undefined);
+
+  if (!secretKey) {
+    throw new Error("No secret key provided for token store");
+  }
+
+  const hmacKey = crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secretKey),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+
+  const getStub = (sessionId: string) =>
+    env.SESSION_DURABLE_OBJECT.get(
+      env.SESSION_DURABLE_OBJECT.idFromName(sessionId),
+    );
+
+  const sign = async (payload: TokenPayload) => {
+    const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await hmacKey,
+      encoder.encode(body),
+    );
+    return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+  };
+
+  const verify = async <T extends TokenPayload>(
+    token: string,
+    typ: T["typ"],
+  ): Promise<T | null> => {
+    const [body, signature] = token.split(".");
+
+    if (!body || !signature) {
+      return null;
+    }
+
+    try {
+      const valid = await crypto.subtle.verify(
+        "HMAC",
+        await hmacKey,
+        fromBase64Url(signature),
+        encoder.encode(body),
+      );
+
+      if (!valid) {
+        return null;
+      }
+
+      const payload = JSON.parse(
+        new TextDecoder().decode(fromBase64Url(body)),
+      ) as TokenPayload;
+
+      return payload.typ === typ ? (payload as T) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const createAccessToken = async (sessionId: string, userId: string) => {
+    const exp = Date.now() + ACCESS_TOKEN_TTL;
+    const accessToken = await sign({
+      typ: "access",
+      sid: sessionId,
+      sub: userId,
+      exp,
+    });
+
+    return { accessToken, expiresAt: new Date(exp).toISOString() };
+  };
+
+  const getBearerToken = (request: Request) => {
+    const authorization = request.headers.get("Authorization");
+
+    if (!authorization?.startsWith("Bearer ")) {
+      return null;
+    }
+
+    return authorization.slice("Bearer ".length).trim() || null;
+  };
+
+  // Starts a new token family for the user, backed by a fresh durable session.
+  // Pass `authenticatedAt` when the user just verified a passkey.
+  const issue = async (
+    userId: string,
+    { authenticatedAt = null }: { authenticatedAt?: number | null } = {},
+  ): Promise<TokenSet> => {
+    const sessionId = crypto.randomUUID();
+    const stub = getStub(sessionId);
+
+    const session = await stub.saveSession({ userId, authenticatedAt });
+    const generation = await stub.startRefreshTokenFamily();
+
+    return {
+      ...(await createAccessToken(sessionId, userId)),
+      sessionExpiresAt: new Date(session.expiresAt).toISOString(),
+      refreshToken: await sign({
+        typ: "refresh",
+        sid: sessionId,
+        gen: generation,
+      }),
+    };
+  };
+
+  // Exchanges a refresh token for a new token set. Presenting a refresh token
+  // that was already rotated out revokes the whole family.
+  const refresh = async (refreshToken: string): Promise<TokenSet> => {
+    const payload = await verify<RefreshTokenPayload>(refreshToken, "refresh");
+
+    if (!payload) {
+      throw new ErrorResponse(401, "Invalid refresh token");
+    }
+
+    const stub = getStub(payload.sid);
+    const rotation = await stub.rotateRefreshToken(payload.gen);
+
+    if ("error" in rotation) {
+      throw new ErrorResponse(401, rotation.error);
+    }
+
+    const { session, generation } = rotation.value;
+
+    if (!session.userId) {
+      throw new ErrorResponse(401, "Invalid refresh token");
+    }
+
+    return {
+      ...(await createAccessToken(payload.sid, session.userId)),
+      sessionExpiresAt: new Date(session.expiresAt).toISOString(),
+      refreshToken: await sign({
+        typ: "refresh",
+        sid: payload.sid,
+        gen: generation,
+      }),
+    };
+  };
+
+  // Resolves the session for an `Authorization: Bearer` request. Returns
+  // `null` when the request carries no bearer token, so callers can fall back
+  // to the session cookie.
+  const load = async (request: Request): Promise<TokenSession | null> => {
+    const token = getBearerToken(request);
+
+    if (!token) {
+      return null;
+    }
+
+    const payload = await verify<AccessTokenPayload>(token, "access");
+
+    if (!payload || payload.exp < Date.now()) {
+      throw new ErrorResponse(401, "Invalid access token");
+    }
+
+    const result = await getStub(payload.sid).getSession();
+
+    if ("error" in result || result.value.userId !== payload.sub) {
+      throw new ErrorResponse(401, "Invalid access token");
+    }
+
+    return {
+      sessionId: payload.sid,
+      session: result.value,
+      renewedAccessToken:
+        payload.exp - Date.now() < ACCESS_TOKEN_RENEWAL_WINDOW
+          ? await createAccessToken(payload.sid, payload.sub)
+          : null,
+    };
+  };
+
+  const issueRealtimeTicket = async (session: Session) => {
+    if (!session.userId) {
+      throw new ErrorResponse(401, "Unauthorized");
+    }
+
+    const exp = Date.now() + REALTIME_TICKET_TTL;
+    const ticket = await sign({
+      typ: "realtime",
+      sid: session.id,
+      sub: session.userId,
+      exp,
+    });
+
+    return { ticket, expiresAt: new Date(exp).toISOString() };
+  };
+
+  // Returns the session and user a ticket was issued for, or null
+  const verifyRealtimeTicket = async (ticket: string) => {
+    const payload = await verify<RealtimeTicketPayload>(ticket, "realtime");
+
+    if (!payload || payload.exp < Date.now()) {
+      return null;
+    }
+
+    return { sessionId: payload.sid, userId: payload.sub };
+  };
+
+  // Revokes the session of the request's access token, even an expired one,
+  // and of `refreshToken`, so a client whose access token can no longer be
+  // refreshed can still sign out
+  const remove = async (request: Request, refreshToken?: string | null) => {
+    const token = getBearerToken(request);
+    const payloads = [
+      token ? await verify<AccessTokenPayload>(token, "access") : null,
+      refreshToken
+        ? await verify<RefreshTokenPayload>(refreshToken, "refresh")
+        : null,
+    ];
+    const sessionIds = new Set(
+      payloads.flatMap((payload) => (payload ? [payload.sid] : [])),
+    );
+
+    for (const sessionId of sessionIds) {
+      await getStub(sessionId).revokeSession();
+    }
+  };
+
+  return {
+    issue,
+    refresh,
+    load,
+    issueRealtimeTicket,
+    verifyRealtimeTicket,
+    remove,
+  };
+};
+
+export const setupTokenStore = (env: Env) => {
+  tokens = createTokenStore(env);
+  return tokens;
+};
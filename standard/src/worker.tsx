@@ -3,12 +3,31 @@ import { route, render, prefix } from "rwsdk/router";
 import { Document } from "@/app/Document";
 import { Home } from "@/app/pages/Home";
 import { setCommonHeaders } from "@/app/headers";
+import { cors } from "@/app/cors";
 import { userRoutes } from "@/app/pages/user/routes";
+import { authRoutes } from "@/app/pages/auth/routes";
+import { authApiRoutes } from "@/app/api/auth/routes";
+import { sessionApiRoutes } from "@/app/api/sessions/routes";
+import { extensionApiRoutes } from "@/app/api/extension/routes";
+import { realtimeApiRoutes } from "@/app/api/realtime/routes";
+import { eventApiRoutes } from "@/app/api/events/routes";
+import { bookmarkApiRoutes } from "@/app/api/bookmarks/routes";
+import { healthApiRoutes } from "@/app/api/health/routes";
+import { Bookmarks } from "@/app/pages/bookmarks/Bookmarks";
+import { requireUser } from "@/app/interruptors";
+import { jsonError } from "@/app/api/responses";
 import { sessions, setupSessionStore } from "./session/store";
+import { tokens, setupTokenStore } from "./session/tokens";
+import {
+  type SessionPlatform,
+  sessionRegistry,
+  setupSessionRegistry,
+} from "./session/registry";
 import { Session } from "./session/durableObject";
 import { type User, db, setupDb } from "@/db";
 import { env } from "cloudflare:workers";
 export { SessionDurableObject } from "./session/durableObject";
+export { RealtimeDurableObject } from "./realtime/durableObject";
 
 export type AppContext = {
   session: Session | null;
@@ -17,15 +36,47 @@ export type AppContext = {
 
 export default defineApp([
   setCommonHeaders(),
+  cors(),
   async ({ ctx, request, headers }) => {
     await setupDb(env);
     setupSessionStore(env);
+    setupTokenStore(env);
+    setupSessionRegistry();
+
+    let platform: SessionPlatform = "web";
 
     try {
-      ctx.session = await sessions.load(request);
+      // Bearer tokens take precedence so the extension's service worker can
+      // call the API without relying on third-party cookies
+      const tokenSession = await tokens.load(request);
+
+      if (tokenSession) {
+        ctx.session = tokenSession.session;
+        platform = "extension";
+
+        if (tokenSession.renewedAccessToken) {
+          const { accessToken, expiresAt } = tokenSession.renewedAccessToken;
+          headers.set("X-Access-Token", accessToken);
+          headers.set("X-Token-Expires-At", expiresAt);
+        }
+      } else {
+        ctx.session = await sessions.load(request);
+      }
     } catch (error) {
       if (error instanceof ErrorResponse && error.code === 401) {
         await sessions.remove(request, headers);
+        const { pathname } = new URL(request.url);
+
+        // Logging out with an expired access token still revokes the session
+        // behind it (see `tokens.remove`)
+        if (pathname === "/api/auth/logout") {
+          return;
+        }
+
+        if (pathname.startsWith("/api/")) {
+          return jsonError(401, "invalid_session", error.message, { headers });
+        }
+
         headers.set("Location", "/user/login");
 
         return new Response(null, {
@@ -44,7 +95,24 @@ export default defineApp([
         },
       });
     }
+
+    if (ctx.user && ctx.session) {
+      await sessionRegistry.track(ctx.session, request, platform);
+
+      // Lets clients see when the session ends if it goes unused
+      headers.set(
+        "X-Session-Expires-At",
+        new Date(ctx.session.expiresAt).toISOString(),
+      );
+    }
   },
+  prefix("/api/auth", authApiRoutes),
+  prefix("/api/sessions", sessionApiRoutes),
+  prefix("/api/extension", extensionApiRoutes),
+  prefix("/api/realtime", realtimeApiRoutes),
+  prefix("/api/events", eventApiRoutes),
+  prefix("/api/bookmarks", bookmarkApiRoutes),
+  prefix("/api/health", healthApiRoutes),
   render(Document, [
     route("/", () => new Response("Hello, World!")),
     route("/protected", [
@@ -58,6 +126,8 @@ export default defineApp([
       },
       Home,
     ]),
+    route("/bookmarks", [requireUser, Bookmarks]),
     prefix("/user", userRoutes),
+    prefix("/auth", authRoutes),
   ]),
 ]);
@@ -4,9 +4,17 @@
 declare namespace Cloudflare {
 	interface Env {
 		WEBAUTHN_APP_NAME: "__change_me__";
+		ALLOWED_EXTENSION_IDS: "__change_me__";
+		ALLOWED_WEB_ORIGINS: "";
+		EXTENSION_NAME: "RedwoodSDK Extension";
+		EXTENSION_MIN_VERSION: "1.0.0";
+		EXTENSION_KILL_SWITCHES: "";
+		SESSION_IDLE_TIMEOUT: "604800";
+		SESSION_MAX_LIFETIME: "2592000";
 		WEBAUTHN_RP_ID: string;
 		AUTH_SECRET_KEY: string;
 		SESSION_DURABLE_OBJECT: DurableObjectNamespace<import("./src/worker").SessionDurableObject>;
+		REALTIME_DURABLE_OBJECT: DurableObjectNamespace<import("./src/worker").RealtimeDurableObject>;
 		DB: D1Database;
 		ASSETS: Fetcher;
 	}
@@ -16,7 +24,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "WEBAUTHN_APP_NAME" | "WEBAUTHN_RP_ID" | "AUTH_SECRET_KEY">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "WEBAUTHN_APP_NAME" | "ALLOWED_EXTENSION_IDS" | "ALLOWED_WEB_ORIGINS" | "EXTENSION_NAME" | "EXTENSION_MIN_VERSION" | "EXTENSION_KILL_SWITCHES" | "SESSION_IDLE_TIMEOUT" | "SESSION_MAX_LIFETIME" | "WEBAUTHN_RP_ID" | "AUTH_SECRET_KEY">> {}
 }
 
 // Begin runtime types